@@ -1,115 +1,68 @@
 import { NextRequest, NextResponse } from 'next/server';
-import Replicate from 'replicate';
-
-const DECONSTRUCT_PROMPT = `You are a productivity expert. Break down the given task into 2-3 KEY MILESTONES, each with 2-3 actionable baby steps.
-
-STRUCTURE:
-- Each MILESTONE is a significant checkpoint (the "what")
-- Each STEP under a milestone takes MAX 3 minutes (the "how")
-- Include the "why" for each milestone
-
-RULES:
-1. Maximum 3 milestones per task
-2. Maximum 3 steps per milestone
-3. Steps must be specific and actionable (start with a verb)
-4. Milestones should feel like achievements when completed
-
-Return ONLY valid JSON:
-{
-  "milestones": [
-    {
-      "title": "Milestone 1 title",
-      "why": "Brief reason this milestone matters",
-      "steps": ["Step 1", "Step 2", "Step 3"]
-    }
-  ]
-}`;
-
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-async function callReplicateWithRetry(
-    replicate: Replicate,
-    prompt: string,
-    maxRetries: number = 3
-): Promise<string> {
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-        try {
-            let output = "";
-            for await (const event of replicate.stream("meta/meta-llama-3-70b-instruct", {
-                input: {
-                    prompt,
-                    temperature: 0.3,
-                    top_p: 0.9,
-                    max_tokens: 1500,
-                }
-            })) {
-                output += String(event);
-            }
-            return output;
-        } catch (error) {
-            if (attempt < maxRetries) {
-                console.log(`Attempt ${attempt} failed, retrying...`);
-                await delay(attempt * 3000);
-                continue;
-            }
-            throw error;
-        }
-    }
-    throw new Error('Max retries exceeded');
-}
+import { AIConfigError, isAIProvider, resolveAIClient } from '@/lib/ai-client';
+import { deconstructTask } from '@/lib/deconstructor';
+import { parsePromptVersion, PromptNotFoundError } from '@/lib/prompts';
+import { getResponseCache } from '@/lib/response-cache';
+import { isAbortError } from '@/lib/retry';
+import { withRateLimit } from '@/lib/scheduler';
+import { StructuredOutputError } from '@/lib/schemas';
+import type { UsageRecord } from '@/lib/types';
+import { usageReport, withUsage } from '@/lib/usage';
+import { BudgetExceededError, checkBudget, recordUsage } from '@/lib/usage-ledger';
 
 export async function POST(request: NextRequest) {
+    const calls: UsageRecord[] = [];
     try {
         const body = await request.json();
-        const { task, context } = body;
+        const { task, context, provider, model, fresh } = body;
+        const promptVersion = parsePromptVersion('deconstruct', body.promptVersion);
 
         if (!task) {
             return NextResponse.json({ error: 'No task provided' }, { status: 400 });
         }
 
-        const apiKey = process.env.REPLICATE_API_KEY;
-        if (!apiKey) {
-            return NextResponse.json({ error: 'API key not configured' }, { status: 500 });
+        if (provider !== undefined && !isAIProvider(provider)) {
+            return NextResponse.json({ error: `Unknown provider: ${provider}` }, { status: 400 });
         }
 
-        const contextInfo = context ? `\nContext/Category: ${context}` : '';
-        const userPrompt = `${DECONSTRUCT_PROMPT}\n\nTask to break down:${contextInfo}\n"${task}"`;
-
-        const replicate = new Replicate({ auth: apiKey });
-        const output = await callReplicateWithRetry(replicate, userPrompt);
-
-        console.log('Deconstruct output length:', output.length);
+        const client = resolveAIClient({ provider, model });
+        await checkBudget();
+
+        const { milestones } = await deconstructTask(
+            withRateLimit(withUsage(client, 'deconstruct', record => calls.push(record))),
+            task,
+            {
+                context,
+                signal: request.signal,
+                cache: getResponseCache({ bypass: fresh === true }),
+                promptVersion,
+            }
+        );
 
-        // Extract JSON
-        const jsonMatch = output.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-            return NextResponse.json({ error: 'Failed to parse response' }, { status: 500 });
+        return NextResponse.json({ milestones, usage: usageReport(calls) });
+    } catch (error) {
+        if (error instanceof AIConfigError) {
+            return NextResponse.json({ error: error.message }, { status: 500 });
         }
-
-        const parsed = JSON.parse(jsonMatch[0]);
-
-        // Support both old "steps" format and new "milestones" format
-        if (parsed.milestones && Array.isArray(parsed.milestones)) {
-            return NextResponse.json({ milestones: parsed.milestones });
+        if (error instanceof PromptNotFoundError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
         }
-
-        // Fallback: convert flat steps to single milestone
-        if (parsed.steps && Array.isArray(parsed.steps)) {
-            return NextResponse.json({
-                milestones: [{
-                    title: "Complete task",
-                    why: "Get it done",
-                    steps: parsed.steps.slice(0, 3)
-                }]
-            });
+        if (error instanceof BudgetExceededError) {
+            return NextResponse.json({ error: error.message, code: 'budget_exceeded' }, { status: 402 });
+        }
+        if (isAbortError(error)) {
+            return NextResponse.json({ error: 'Request aborted' }, { status: 499 });
+        }
+        if (error instanceof StructuredOutputError) {
+            return NextResponse.json({ error: error.message, details: error.errors }, { status: 500 });
         }
 
-        return NextResponse.json({ error: 'Invalid response structure' }, { status: 500 });
-    } catch (error) {
         console.error('Deconstruct error:', error);
         return NextResponse.json(
             { error: error instanceof Error ? error.message : 'Processing failed' },
             { status: 500 }
         );
+    } finally {
+        await recordUsage(calls);
     }
 }
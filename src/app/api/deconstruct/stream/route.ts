@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIConfigError, isAIProvider, resolveAIClient, type AIClient } from '@/lib/ai-client';
+import { deconstructTask } from '@/lib/deconstructor';
+import { parsePromptVersion, PromptNotFoundError } from '@/lib/prompts';
+import { getResponseCache } from '@/lib/response-cache';
+import { isAbortError } from '@/lib/retry';
+import { withRateLimit } from '@/lib/scheduler';
+import { formatSSE, SSE_HEADERS } from '@/lib/sse';
+import type { DeconstructStreamEvent, UsageRecord } from '@/lib/types';
+import { usageReport, withUsage } from '@/lib/usage';
+import { BudgetExceededError, checkBudget, recordUsage } from '@/lib/usage-ledger';
+
+/**
+ * Breaks a task down while streaming each milestone and step as SSE events.
+ * The final `done` event carries the validated milestones, which win over anything streamed,
+ * and the token usage of the provider calls behind them.
+ */
+export async function POST(request: NextRequest) {
+    const body = await request.json().catch(() => null);
+    const { task, context, provider, model, fresh } = body ?? {};
+
+    if (!task) {
+        return NextResponse.json({ error: 'No task provided' }, { status: 400 });
+    }
+
+    if (provider !== undefined && !isAIProvider(provider)) {
+        return NextResponse.json({ error: `Unknown provider: ${provider}` }, { status: 400 });
+    }
+
+    let promptVersion: string | undefined;
+    try {
+        promptVersion = parsePromptVersion('deconstruct', body.promptVersion);
+    } catch (error) {
+        if (error instanceof PromptNotFoundError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+    }
+
+    let client: AIClient;
+    try {
+        client = resolveAIClient({ provider, model });
+    } catch (error) {
+        if (error instanceof AIConfigError) {
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+        throw error;
+    }
+
+    try {
+        await checkBudget();
+    } catch (error) {
+        if (error instanceof BudgetExceededError) {
+            return NextResponse.json({ error: error.message, code: 'budget_exceeded' }, { status: 402 });
+        }
+        throw error;
+    }
+
+    const cache = getResponseCache({ bypass: fresh === true });
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: DeconstructStreamEvent) => {
+                try {
+                    controller.enqueue(encoder.encode(formatSSE(event.type, event)));
+                } catch {
+                    // Client went away; the abort signal stops generation
+                }
+            };
+
+            const calls: UsageRecord[] = [];
+            try {
+                const { milestones } = await deconstructTask(
+                    withRateLimit(withUsage(client, 'deconstruct', record => calls.push(record))),
+                    task,
+                    {
+                        context,
+                        signal: request.signal,
+                        onEvent: send,
+                        cache,
+                        promptVersion,
+                    }
+                );
+                send({ type: 'done', milestones, usage: usageReport(calls) });
+            } catch (error) {
+                if (!isAbortError(error)) {
+                    console.error('Deconstruct stream error:', error);
+                    send({ type: 'error', error: error instanceof Error ? error.message : 'Processing failed' });
+                }
+            } finally {
+                await recordUsage(calls);
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed by a disconnect
+                }
+            }
+        },
+    });
+
+    return new Response(stream, { headers: SSE_HEADERS });
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIConfigError, isAIProvider, resolveAIClient } from '@/lib/ai-client';
+import { isAbortError, withRetry } from '@/lib/retry';
+import { withRateLimit } from '@/lib/scheduler';
+import type { UsageRecord } from '@/lib/types';
+import { usageReport, withUsage } from '@/lib/usage';
+import { BudgetExceededError, checkBudget, recordUsage } from '@/lib/usage-ledger';
+
+const MAX_TEXTS = 2000;
+
+export async function POST(request: NextRequest) {
+    const calls: UsageRecord[] = [];
+    try {
+        const body = await request.json();
+        const { texts, provider, model } = body;
+
+        if (!Array.isArray(texts) || texts.length === 0 || !texts.every(t => typeof t === 'string')) {
+            return NextResponse.json({ error: 'No texts provided' }, { status: 400 });
+        }
+        if (texts.length > MAX_TEXTS) {
+            return NextResponse.json({ error: `Too many texts (max ${MAX_TEXTS})` }, { status: 400 });
+        }
+
+        if (provider !== undefined && !isAIProvider(provider)) {
+            return NextResponse.json({ error: `Unknown provider: ${provider}` }, { status: 400 });
+        }
+
+        const client = withRateLimit(withUsage(resolveAIClient({ provider, model }), 'embed', record => calls.push(record)));
+        if (!client.embed) {
+            return NextResponse.json({ error: `Embeddings not supported by ${client.provider}` }, { status: 501 });
+        }
+
+        await checkBudget();
+        const embed = client.embed.bind(client);
+        const vectors = await withRetry(
+            () => embed(texts, request.signal),
+            { signal: request.signal, label: 'Embed' }
+        );
+
+        return NextResponse.json({ vectors, usage: usageReport(calls) });
+    } catch (error) {
+        if (error instanceof AIConfigError) {
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+        if (error instanceof BudgetExceededError) {
+            return NextResponse.json({ error: error.message, code: 'budget_exceeded' }, { status: 402 });
+        }
+        if (isAbortError(error)) {
+            return NextResponse.json({ error: 'Request aborted' }, { status: 499 });
+        }
+
+        console.error('Embed error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Processing failed' },
+            { status: 500 }
+        );
+    } finally {
+        await recordUsage(calls);
+    }
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { listPrompts } from '@/lib/prompts';
+
+/**
+ * Registered prompt versions, for picking one per request or comparing two
+ */
+export async function GET() {
+    return NextResponse.json({ prompts: listPrompts() });
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIConfigError, isAIProvider, resolveAIClient } from '@/lib/ai-client';
+import { estimateTokens, splitIntoBatches } from '@/lib/chunker';
+import { getPrompt, parsePromptVersion, PromptNotFoundError } from '@/lib/prompts';
+import { getResponseCache } from '@/lib/response-cache';
+import { isAbortError } from '@/lib/retry';
+import { withRateLimit } from '@/lib/scheduler';
+import { StructuredOutputError } from '@/lib/schemas';
+import { buildSortPrompt, compareSortResults, parseSortExamples, sortBatch } from '@/lib/sorter';
+import { parseBucketAliases } from '@/lib/taxonomy';
+import type { PromptComparison, UsageRecord } from '@/lib/types';
+import { usageReport, withUsage } from '@/lib/usage';
+import { BudgetExceededError, checkBudget, recordUsage } from '@/lib/usage-ledger';
+
+/**
+ * Sorts the same batch with two prompt versions side by side and returns where they disagree.
+ * Only the first batch of `lines` is sent: usually two calls, up to twelve when both versions
+ * need every retry (3 attempts) and re-prompt (2 prompts).
+ */
+export async function POST(request: NextRequest) {
+    const calls: UsageRecord[] = [];
+    try {
+        const body = await request.json();
+        const { lines, versions, existingBuckets, examples, aliases, provider, model, fresh } = body;
+
+        if (!Array.isArray(lines) || !lines.some(l => typeof l === 'string' && l.trim())) {
+            return NextResponse.json({ error: 'No tasks provided' }, { status: 400 });
+        }
+        if (!Array.isArray(versions) || versions.length !== 2) {
+            return NextResponse.json({ error: 'Pick two prompt versions to compare' }, { status: 400 });
+        }
+        // An empty version means the default one
+        const [versionA, versionB] = versions.map(v => getPrompt('sort', parsePromptVersion('sort', v)).version);
+
+        if (provider !== undefined && !isAIProvider(provider)) {
+            return NextResponse.json({ error: `Unknown provider: ${provider}` }, { status: 400 });
+        }
+
+        const client = withRateLimit(withUsage(resolveAIClient({ provider, model }), 'sort', record => calls.push(record)));
+        await checkBudget();
+
+        const buckets: string[] = Array.isArray(existingBuckets) ? existingBuckets : [];
+        const sortExamples = parseSortExamples(examples);
+        const bucketAliases = parseBucketAliases(aliases);
+        const cache = getResponseCache({ bypass: fresh === true });
+
+        const text = lines.filter(l => typeof l === 'string').join('\n');
+        const promptTokens = Math.max(
+            estimateTokens(buildSortPrompt([], buckets, sortExamples, versionA)),
+            estimateTokens(buildSortPrompt([], buckets, sortExamples, versionB))
+        );
+        const batches = splitIntoBatches(text, { model: client.model, promptTokens });
+        const batch = batches[0].lines;
+
+        const sortWith = (version: string) => sortBatch(client, batch, {
+            existingBuckets: buckets,
+            signal: request.signal,
+            examples: sortExamples,
+            aliases: bucketAliases,
+            cache,
+            promptVersion: version,
+        });
+        const [resultA, resultB] = await Promise.all([sortWith(versionA), sortWith(versionB)]);
+
+        const comparison: PromptComparison = {
+            versions: [versionA, versionB],
+            total: batch.length,
+            ...compareSortResults(batch, resultA, resultB),
+            skipped: batches.slice(1).reduce((sum, b) => sum + b.lines.length, 0),
+            usage: usageReport(calls),
+        };
+        return NextResponse.json(comparison);
+    } catch (error) {
+        if (error instanceof AIConfigError) {
+            return NextResponse.json({ error: error.message, code: 'provider_unavailable' }, { status: 500 });
+        }
+        if (error instanceof PromptNotFoundError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        if (error instanceof BudgetExceededError) {
+            return NextResponse.json({ error: error.message, code: 'budget_exceeded' }, { status: 402 });
+        }
+        if (isAbortError(error)) {
+            return NextResponse.json({ error: 'Request aborted' }, { status: 499 });
+        }
+        if (error instanceof StructuredOutputError) {
+            return NextResponse.json({ error: error.message, details: error.errors }, { status: 500 });
+        }
+
+        console.error('Prompt comparison error:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Processing failed' },
+            { status: 500 }
+        );
+    } finally {
+        await recordUsage(calls);
+    }
+}
@@ -0,0 +1,215 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIConfigError, isAIProvider, resolveAIClient, type AIClient } from '@/lib/ai-client';
+import { estimateTokens, splitIntoBatches } from '@/lib/chunker';
+import { getResponseCache } from '@/lib/response-cache';
+import { isAbortError, isUnavailableError } from '@/lib/retry';
+import { parsePromptVersion, PromptNotFoundError } from '@/lib/prompts';
+import { getSchedule, runPool, withRateLimit } from '@/lib/scheduler';
+import { buildSortPrompt, parseSortExamples, sortBatch } from '@/lib/sorter';
+import { formatSSE, SSE_HEADERS } from '@/lib/sse';
+import { parseBucketAliases, reconcileBucket } from '@/lib/taxonomy';
+import type { SortBatchPlan, SortResponse, SortStreamEvent, UsageRecord, UsageReport } from '@/lib/types';
+import { addToTotals, emptyTotals, usageReport, withUsage } from '@/lib/usage';
+import { BudgetExceededError, checkBudget, recordUsage } from '@/lib/usage-ledger';
+
+function isBatchPlan(value: unknown): value is SortBatchPlan[] {
+    return Array.isArray(value) && value.every(b =>
+        typeof b?.index === 'number' && Array.isArray(b.lines) && b.lines.every((l: unknown) => typeof l === 'string')
+    );
+}
+
+type BatchOutcome = { tasks: SortResponse['tasks']; usage: UsageReport } | { error: string; unavailable: boolean };
+
+function importLabel(batches: SortBatchPlan[]): string {
+    const lines = batches.flatMap(b => b.lines);
+    const first = lines[0].length > 40 ? `${lines[0].substring(0, 40)}…` : lines[0];
+    return lines.length > 1 ? `${first} (+${lines.length - 1} more)` : first;
+}
+
+/**
+ * Sorts a whole dump several batches at a time, streaming each bucket assignment as an SSE event.
+ * Concurrency and pacing follow the provider's rate limits; results are streamed in batch order so
+ * progress and the board fill up the same way however the calls finish.
+ * A failed batch is reported and skipped so the rest of the dump still lands.
+ * Send `content` to have the dump split here, or `batches` to re-run specific batches of an earlier plan.
+ * Answers are cached per batch; send `fresh: true` to ask the model again, and `promptVersion`
+ * to sort with a specific registered prompt.
+ * Token usage is reported with every batch and recorded under `importId`; batches stop once the
+ * monthly budget is spent.
+ */
+export async function POST(request: NextRequest) {
+    const body = await request.json().catch(() => null);
+    const { content, batches: plannedBatches, existingBuckets, examples, aliases, provider, model, fresh, importId } = body ?? {};
+
+    let promptVersion: string | undefined;
+    try {
+        promptVersion = parsePromptVersion('sort', body?.promptVersion);
+    } catch (error) {
+        if (error instanceof PromptNotFoundError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+    }
+
+    const hasPlan = isBatchPlan(plannedBatches);
+    if (!hasPlan && !(typeof content === 'string' && content.trim())) {
+        return NextResponse.json({ error: 'No tasks provided' }, { status: 400 });
+    }
+
+    if (provider !== undefined && !isAIProvider(provider)) {
+        return NextResponse.json({ error: `Unknown provider: ${provider}` }, { status: 400 });
+    }
+
+    let client: AIClient;
+    try {
+        client = resolveAIClient({ provider, model });
+    } catch (error) {
+        if (error instanceof AIConfigError) {
+            return NextResponse.json({ error: error.message, code: 'provider_unavailable' }, { status: 500 });
+        }
+        throw error;
+    }
+
+    // Buckets created by earlier batches are offered to later ones so names stay consistent
+    const buckets = new Set<string>(Array.isArray(existingBuckets) ? existingBuckets : []);
+    // Which buckets a batch sees depends on how the batches before it interleaved, so cache
+    // entries are keyed on the list the request started with
+    const initialBuckets = [...buckets];
+    const sortExamples = parseSortExamples(examples);
+    const bucketAliases = parseBucketAliases(aliases);
+    const cache = getResponseCache({ bypass: fresh === true });
+
+    // A fresh dump is sized for the resolved model; a resumed plan keeps its batch indexes
+    const batches: SortBatchPlan[] = hasPlan
+        ? plannedBatches.filter(b => b.lines.length > 0)
+        : splitIntoBatches(content, {
+            model: client.model,
+            promptTokens: estimateTokens(buildSortPrompt([], initialBuckets, sortExamples, promptVersion)),
+        }).map(({ index, lines }) => ({ index, lines }));
+
+    if (batches.length === 0) {
+        return NextResponse.json({ error: 'No tasks provided' }, { status: 400 });
+    }
+
+    try {
+        await checkBudget();
+    } catch (error) {
+        if (error instanceof BudgetExceededError) {
+            return NextResponse.json({ error: error.message, code: 'budget_exceeded' }, { status: 402 });
+        }
+        throw error;
+    }
+
+    // Usage of every batch of one import (resumes included) adds up under the client's job id
+    const importRef = typeof importId === 'string'
+        ? { id: importId, label: importLabel(batches) }
+        : undefined;
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: SortStreamEvent) => {
+                try {
+                    controller.enqueue(encoder.encode(formatSSE(event.type, event)));
+                } catch {
+                    // Client went away; the abort signal stops the loop
+                }
+            };
+
+            send({
+                type: 'start',
+                totalBatches: batches.length,
+                totalTasks: batches.reduce((sum, b) => sum + b.lines.length, 0),
+                batches,
+            });
+
+            let completed = 0;
+            let sorted = 0;
+            const failedBatches: number[] = [];
+            let usage = emptyTotals();
+
+            // Finished batches wait here until every batch before them has been streamed
+            const outcomes = new Map<number, BatchOutcome>();
+            let nextToSend = 0;
+            const flush = () => {
+                for (let outcome = outcomes.get(nextToSend); outcome; outcome = outcomes.get(nextToSend)) {
+                    const batch = batches[nextToSend];
+                    outcomes.delete(nextToSend);
+                    nextToSend++;
+
+                    if ('error' in outcome) {
+                        failedBatches.push(batch.index);
+                        send({
+                            type: 'batch-error',
+                            index: batch.index,
+                            lines: batch.lines,
+                            error: outcome.error,
+                            unavailable: outcome.unavailable,
+                        });
+                        continue;
+                    }
+                    for (const item of outcome.tasks) {
+                        send({ type: 'task', batch: batch.index, text: item.text, bucket: item.bucket });
+                    }
+                    sorted += outcome.tasks.length;
+                    completed++;
+                    usage = addToTotals(usage, outcome.usage.total);
+                    send({ type: 'batch-done', index: batch.index, completed, total: batches.length, usage: outcome.usage });
+                }
+            };
+
+            const schedule = getSchedule(client.provider);
+
+            try {
+                await runPool(batches, async (batch, position) => {
+                    const calls: UsageRecord[] = [];
+                    try {
+                        await checkBudget();
+                        const result = await sortBatch(
+                            withRateLimit(withUsage(client, 'sort', record => calls.push(record))),
+                            batch.lines,
+                            {
+                                existingBuckets: [...buckets],
+                                signal: request.signal,
+                                examples: sortExamples,
+                                aliases: bucketAliases,
+                                cache,
+                                cacheBuckets: initialBuckets,
+                                promptVersion,
+                            }
+                        );
+                        // Batches running alongside this one may have named the same bucket differently
+                        const tasks = result.tasks.map(item => ({ ...item, bucket: reconcileBucket(buckets, item.bucket) }));
+                        tasks.forEach(item => buckets.add(item.bucket));
+                        outcomes.set(position, { tasks, usage: usageReport(calls) });
+                    } catch (error) {
+                        if (isAbortError(error)) return;
+                        console.error(`Sort stream batch ${batch.index + 1} failed:`, error);
+                        outcomes.set(position, {
+                            error: error instanceof Error ? error.message : 'Processing failed',
+                            unavailable: error instanceof BudgetExceededError || isUnavailableError(error),
+                        });
+                    } finally {
+                        await recordUsage(calls, importRef);
+                    }
+                    flush();
+                }, { concurrency: schedule.concurrency, signal: request.signal });
+
+                if (!request.signal.aborted) {
+                    send({ type: 'done', sorted, failedBatches, usage });
+                }
+            } catch (error) {
+                console.error('Sort stream error:', error);
+                send({ type: 'error', error: error instanceof Error ? error.message : 'Processing failed' });
+            } finally {
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed by a disconnect
+                }
+            }
+        },
+    });
+
+    return new Response(stream, { headers: SSE_HEADERS });
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsageSummary, setMonthlyBudget } from '@/lib/usage-ledger';
+
+export async function GET() {
+    return NextResponse.json(await getUsageSummary());
+}
+
+/**
+ * Sets the monthly budget in USD; `null` or 0 removes it
+ */
+export async function PUT(request: NextRequest) {
+    const body = await request.json().catch(() => null);
+    const budgetUsd = body?.budgetUsd;
+
+    if (budgetUsd !== null && (typeof budgetUsd !== 'number' || !Number.isFinite(budgetUsd) || budgetUsd < 0)) {
+        return NextResponse.json({ error: 'budgetUsd must be a positive number or null' }, { status: 400 });
+    }
+
+    await setMonthlyBudget(budgetUsd);
+    return NextResponse.json(await getUsageSummary());
+}
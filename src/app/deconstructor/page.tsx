@@ -1,25 +1,33 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import JSZip from "jszip";
-
-// Unified tree structure - everything is a TaskNode
-interface TaskNode {
-    id: string;
-    text: string;
-    completed: boolean;
-    children: TaskNode[];
-    isDeconstructing?: boolean;
-}
-
-interface FolderData {
-    name: string;
-    tier: "A" | "B" | "C" | null;
-    tasks: TaskNode[];
-    completed: boolean;
-    expanded: boolean;
-}
+import { StorageIssueBanner } from "@/components/StorageIssueBanner";
+import { CalendarExport } from "@/components/CalendarExport";
+import { readSSE } from "@/lib/sse";
+import { exportFolders, isChecklistPath, parseChecklistFile } from "@/lib/checklist";
+import { isFolderComplete, loadFolders, saveFolders } from "@/lib/store";
+import { loadHistory, saveHistory } from "@/lib/history";
+import { takeSnapshot } from "@/lib/snapshots";
+import { useFolderHistory } from "@/lib/use-folder-history";
+import { useQuickCapture } from "@/lib/use-quick-capture";
+import { mergeTaskLists } from "@/lib/taxonomy";
+import { TIERS, TIER_COLORS, type DeconstructStreamEvent, type Folder, type Task, type Tier } from "@/lib/types";
+
+type RatedTier = Exclude<Tier, null>;
+
+const TIER_LABELS: Record<RatedTier, string> = {
+    S: "Now",
+    A: "Priority",
+    B: "Medium",
+    C: "Later",
+    D: "Someday",
+    F: "Drop",
+};
+
+const RATED_TIERS = TIERS.filter((t): t is RatedTier => t !== null);
 
 type ViewMode = "upload" | "tinder" | "tree";
 
@@ -28,35 +36,43 @@ function generateId(): string {
 }
 
 export default function Deconstructor() {
-    const [folders, setFolders] = useState<FolderData[]>([]);
+    // Undo history is shared with the board, like the folders
+    const { folders, history, setFolders, commit, beginBatch, endBatch, undo, redo, undoLabel, redoLabel, reset: resetHistory } = useFolderHistory();
+    const [isLoaded, setIsLoaded] = useState(false);
     const [viewMode, setViewMode] = useState<ViewMode>("upload");
     const [loadingTaskId, setLoadingTaskId] = useState<string | null>(null);
-    const [sortHistory, setSortHistory] = useState<string[]>([]);
+    const [breakdownError, setBreakdownError] = useState<string | null>(null);
+    const [showCalendarExport, setShowCalendarExport] = useState(false);
+    const router = useRouter();
+
+    // Capture lives on the board, so the shortcut goes there
+    const openCapture = useCallback(() => router.push("/?capture"), [router]);
+    useQuickCapture({ onOpen: openCapture });
     const fileInputRef = useRef<HTMLInputElement>(null);
 
-    // Load from localStorage
+    // Load the store shared with the board
     useEffect(() => {
-        const saved = localStorage.getItem("flowlist-tree");
-        if (saved) {
-            try {
-                const parsed = JSON.parse(saved);
-                setFolders(parsed);
-                const unsorted = parsed.filter((f: FolderData) => f.tier === null);
-                setViewMode(unsorted.length > 0 ? "tinder" : parsed.length > 0 ? "tree" : "upload");
-            } catch (e) { /* ignore parse errors */ }
-        }
-    }, []);
+        Promise.all([loadFolders(), loadHistory()]).then(([saved, savedHistory]) => {
+            resetHistory(saved, savedHistory);
+            const unsorted = saved.filter(f => f.tier === null);
+            setViewMode(unsorted.length > 0 ? "tinder" : saved.length > 0 ? "tree" : "upload");
+            setIsLoaded(true);
+        });
+    }, [resetHistory]);
 
-    // Save folders to localStorage (always save, including empty state)
+    // Save folders (always save, including empty state), but never before the load finished
     useEffect(() => {
-        localStorage.setItem("flowlist-tree", JSON.stringify(folders));
-    }, [folders]);
+        if (isLoaded) {
+            saveFolders(folders);
+        }
+    }, [folders, isLoaded]);
 
+    useEffect(() => {
+        if (isLoaded) {
+            saveHistory(history);
+        }
+    }, [history, isLoaded]);
 
-    const parseTier = (name: string): { tier: "A" | "B" | "C" | null; cleanName: string } => {
-        const match = name.match(/^\[([ABC])\]\s*/i);
-        return match ? { tier: match[1].toUpperCase() as "A" | "B" | "C", cleanName: name.replace(match[0], "") } : { tier: null, cleanName: name };
-    };
 
     const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
@@ -64,73 +80,76 @@ export default function Deconstructor() {
 
         if (file.name.endsWith(".zip")) {
             const zip = await JSZip.loadAsync(file);
-            const newFolders: FolderData[] = [];
+            const newFolders: Folder[] = [];
 
             for (const [path, zipEntry] of Object.entries(zip.files)) {
-                if (zipEntry.dir || !path.endsWith(".txt")) continue;
-                const content = await zipEntry.async("string");
-                const fileName = path.split("/").pop() || path;
-                const { tier, cleanName } = parseTier(fileName.replace(".txt", ""));
-                const taskLines = content.split("\n").map(l => l.replace(/^-\s*\[.\]\s*|^-\s*|\*\s*/, "").trim()).filter(l => l.length > 0);
-
-                if (taskLines.length > 0) {
-                    const tasks: TaskNode[] = taskLines.map(text => ({
-                        id: generateId(),
-                        text,
-                        completed: false,
-                        children: []
-                    }));
-                    newFolders.push({ name: cleanName, tier, tasks, completed: false, expanded: false });
+                if (zipEntry.dir || !isChecklistPath(path)) continue;
+                const parsed = parseChecklistFile(path, await zipEntry.async("string"));
+                newFolders.push({ ...parsed, id: generateId(), expanded: false });
+            }
+
+            // The store is shared with the board, so merge by name rather than replacing it
+            const merged = [...folders];
+            for (const folder of newFolders) {
+                const index = merged.findIndex(f => f.name === folder.name);
+                if (index === -1) {
+                    merged.push(folder);
+                } else {
+                    merged[index] = {
+                        ...merged[index],
+                        tier: folder.tier ?? merged[index].tier,
+                        tasks: mergeTaskLists(merged[index].tasks, folder.tasks),
+                    };
                 }
             }
 
-            setFolders(newFolders);
-            const unsorted = newFolders.filter(f => f.tier === null);
+            await takeSnapshot(folders, `Before importing ${file.name}`);
+            commit(`Import ${file.name}`, merged);
+            const unsorted = merged.filter(f => f.tier === null);
             setViewMode(unsorted.length > 0 ? "tinder" : "tree");
         }
     };
 
-    const assignTier = (tier: "A" | "B" | "C") => {
+    const assignTier = (tier: RatedTier) => {
         const unsorted = folders.filter(f => f.tier === null);
         if (unsorted.length === 0) { setViewMode("tree"); return; }
 
-        const folderName = unsorted[0].name;
-        setSortHistory(prev => [...prev, folderName]);
-
-        setFolders(prev => {
-            const updated = prev.map(f => f.name === folderName ? { ...f, tier } : f);
-            if (updated.filter(f => f.tier === null).length === 0) {
-                setTimeout(() => setViewMode("tree"), 0);
-            }
-            return updated;
-        });
+        const { id: folderId, name } = unsorted[0];
+        const updated = folders.map(f => f.id === folderId ? { ...f, tier } : f);
+        commit(`Rate ${name} ${tier}`, updated);
+        if (updated.every(f => f.tier !== null)) setViewMode("tree");
     };
 
-    const undoLastSort = () => {
-        if (sortHistory.length === 0) return;
-        const lastFolderName = sortHistory[sortHistory.length - 1];
-        setSortHistory(prev => prev.slice(0, -1));
-        setFolders(prev => prev.map(f =>
-            f.name === lastFolderName ? { ...f, tier: null } : f
-        ));
+    const resetAllRatings = () => {
+        commit("Reset all ratings", prev => prev.map(f => ({ ...f, tier: null })));
     };
 
-    const resetAllRatings = () => {
-        setSortHistory([]);
-        setFolders(prev => prev.map(f => ({ ...f, tier: null })));
+    // Apply an update to one node anywhere in a folder's tree
+    const updateNode = (folderId: string, nodeId: string, update: (node: Task) => Task) => {
+        setFolders(prev => prev.map(f => {
+            if (f.id !== folderId) return f;
+
+            const updateChildren = (nodes: Task[]): Task[] =>
+                nodes.map(n => n.id === nodeId ? update(n) : { ...n, children: updateChildren(n.children) });
+
+            return { ...f, tasks: updateChildren(f.tasks) };
+        }));
     };
 
-    // Deconstruct a task into ≤3 min baby steps
-    const deconstructTask = async (folderId: number, taskId: string) => {
+    // Deconstruct a task into ≤3 min baby steps, inserting milestones and steps as they stream in
+    // The whole breakdown is one undo step
+    // `fresh` skips the server's cached break-down of the same task text
+    const deconstructTask = async (folderId: string, taskId: string, fresh = false) => {
+        const folder = folders.find(f => f.id === folderId);
+        if (!folder) return;
         setLoadingTaskId(taskId);
+        setBreakdownError(null);
 
         // Find the task text
         let taskText = "";
-        let folderName = "";
-        const folder = folders[folderId];
-        folderName = folder.name;
+        const folderName = folder.name;
 
-        const findTask = (nodes: TaskNode[]): TaskNode | null => {
+        const findTask = (nodes: Task[]): Task | null => {
             for (const n of nodes) {
                 if (n.id === taskId) return n;
                 const found = findTask(n.children);
@@ -142,68 +161,83 @@ export default function Deconstructor() {
         const task = findTask(folder.tasks);
         if (task) taskText = task.text;
 
+        // Ids of streamed nodes by milestone/step index, so the final result can reuse them
+        let milestoneIds: string[] = [];
+        let stepIds: string[][] = [];
+        const isStreamed = (node: Task) => milestoneIds.includes(node.id);
+
+        beginBatch(`Break down "${taskText}"`);
         try {
-            const response = await fetch("/api/deconstruct", {
+            const response = await fetch("/api/deconstruct/stream", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ task: taskText, context: folderName }),
+                body: JSON.stringify({ task: taskText, context: folderName, fresh }),
             });
 
-            if (!response.ok) throw new Error("Failed");
-            const data = await response.json();
+            if (!response.ok) {
+                // e.g. 402 once the monthly budget is spent, or the provider's own error
+                const errorData = await response.json().catch(() => ({}));
+                throw new Error(errorData.error || `Break-down failed: ${response.status}`);
+            }
 
-            // Convert milestones to children TaskNodes
-            const children: TaskNode[] = [];
-            if (data.milestones) {
-                for (const m of data.milestones) {
-                    const milestoneNode: TaskNode = {
-                        id: generateId(),
+            for await (const message of readSSE(response)) {
+                const event: DeconstructStreamEvent = JSON.parse(message.data);
+
+                if (event.type === "milestone") {
+                    const milestoneNode: Task = { id: generateId(), text: `🎯 ${event.title}`, completed: false, children: [] };
+                    milestoneIds[event.index] = milestoneNode.id;
+                    stepIds[event.index] = [];
+                    updateNode(folderId, taskId, n => ({ ...n, children: [...n.children, milestoneNode] }));
+                } else if (event.type === "step") {
+                    const milestoneId = milestoneIds[event.milestone];
+                    if (!milestoneId) continue;
+                    const stepNode: Task = { id: generateId(), text: event.text, completed: false, children: [] };
+                    stepIds[event.milestone][event.index] = stepNode.id;
+                    updateNode(folderId, milestoneId, m => ({ ...m, children: [...m.children, stepNode] }));
+                } else if (event.type === "reset") {
+                    const streamed = milestoneIds;
+                    updateNode(folderId, taskId, n => ({ ...n, children: n.children.filter(c => !streamed.includes(c.id)) }));
+                    milestoneIds = [];
+                    stepIds = [];
+                } else if (event.type === "done") {
+                    // The validated result is authoritative; keep streamed ids so React doesn't remount rows
+                    const children: Task[] = event.milestones.map((m, i) => ({
+                        id: milestoneIds[i] ?? generateId(),
                         text: `🎯 ${m.title}`,
                         completed: false,
-                        children: m.steps.slice(0, 3).map((step: string) => ({
-                            id: generateId(),
+                        children: m.steps.slice(0, 3).map((step, j) => ({
+                            id: stepIds[i]?.[j] ?? generateId(),
                             text: step,
                             completed: false,
                             children: []
                         }))
-                    };
-                    children.push(milestoneNode);
+                    }));
+                    updateNode(folderId, taskId, n => ({ ...n, children: [...n.children.filter(c => !isStreamed(c)), ...children] }));
+                } else if (event.type === "error") {
+                    throw new Error(event.error);
                 }
             }
-
-            // Update the task with children
-            setFolders(prev => prev.map((f, fIdx) => {
-                if (fIdx !== folderId) return f;
-
-                const updateChildren = (nodes: TaskNode[]): TaskNode[] => {
-                    return nodes.map(n => {
-                        if (n.id === taskId) {
-                            return { ...n, children: [...n.children, ...children] };
-                        }
-                        return { ...n, children: updateChildren(n.children) };
-                    });
-                };
-
-                return { ...f, tasks: updateChildren(f.tasks) };
-            }));
         } catch (err) {
             console.error(err);
+            setBreakdownError(err instanceof Error ? err.message : "Break-down failed");
+        } finally {
+            endBatch();
         }
 
         setLoadingTaskId(null);
     };
 
     // Toggle completion - cascades to children
-    const toggleTaskComplete = (folderId: number, taskId: string) => {
-        setFolders(prev => prev.map((f, fIdx) => {
-            if (fIdx !== folderId) return f;
+    const toggleTaskComplete = (folderId: string, taskId: string) => {
+        commit("Toggle task", prev => prev.map(f => {
+            if (f.id !== folderId) return f;
 
-            const toggleNode = (nodes: TaskNode[], newValue?: boolean): TaskNode[] => {
+            const toggleNode = (nodes: Task[], newValue?: boolean): Task[] => {
                 return nodes.map(n => {
                     if (n.id === taskId) {
                         const completed = newValue ?? !n.completed;
                         // Cascade to all children
-                        const cascadeComplete = (children: TaskNode[]): TaskNode[] =>
+                        const cascadeComplete = (children: Task[]): Task[] =>
                             children.map(c => ({ ...c, completed, children: cascadeComplete(c.children) }));
                         return { ...n, completed, children: cascadeComplete(n.children) };
                     }
@@ -211,75 +245,51 @@ export default function Deconstructor() {
                 });
             };
 
-            const updatedTasks = toggleNode(f.tasks);
-            const allComplete = updatedTasks.every(t => t.completed);
-            return { ...f, tasks: updatedTasks, completed: allComplete };
+            return { ...f, tasks: toggleNode(f.tasks) };
         }));
     };
 
-    const toggleFolderComplete = (folderId: number) => {
-        setFolders(prev => prev.map((f, fIdx) => {
-            if (fIdx !== folderId) return f;
-            const newCompleted = !f.completed;
+    // A folder is complete when all its tasks are, so ticking it ticks (or unticks) everything
+    const toggleFolderComplete = (folderId: string) => {
+        commit("Toggle folder", prev => prev.map(f => {
+            if (f.id !== folderId) return f;
+            const newCompleted = !isFolderComplete(f);
 
-            const setAllComplete = (nodes: TaskNode[]): TaskNode[] =>
+            const setAllComplete = (nodes: Task[]): Task[] =>
                 nodes.map(n => ({ ...n, completed: newCompleted, children: setAllComplete(n.children) }));
 
-            return { ...f, completed: newCompleted, tasks: setAllComplete(f.tasks) };
+            return { ...f, tasks: setAllComplete(f.tasks) };
         }));
     };
 
-    const toggleFolderExpand = (folderId: number) => {
-        setFolders(prev => prev.map((f, fIdx) =>
-            fIdx === folderId ? { ...f, expanded: !f.expanded } : f
+    const toggleFolderExpand = (folderId: string) => {
+        setFolders(prev => prev.map(f =>
+            f.id === folderId ? { ...f, expanded: !f.expanded } : f
         ));
     };
 
-    const changeFolderTier = (folderId: number, newTier: "A" | "B" | "C") => {
-        setFolders(prev => prev.map((f, fIdx) =>
-            fIdx === folderId ? { ...f, tier: newTier } : f
+    const changeFolderTier = (folderId: string, newTier: RatedTier) => {
+        commit(`Move to tier ${newTier}`, prev => prev.map(f =>
+            f.id === folderId ? { ...f, tier: newTier } : f
         ));
     };
 
-    const reset = () => {
-        setFolders([]);
-        localStorage.removeItem("flowlist-tree");
+    // Folders are shared with the board, so this clears both pages (undoable)
+    const reset = async () => {
+        if (!confirm("Clear every folder? This also empties the board.")) return;
+        await takeSnapshot(folders, "Before clear");
+        commit("Clear all", []);
         setViewMode("upload");
     };
 
-    // Download sorted ZIP with A/B/C subdirectories
+    // Download sorted ZIP with one subdirectory per tier
     const downloadSortedZip = async () => {
         const zip = new JSZip();
         const date = new Date().toISOString().split("T")[0];
-        const rootFolder = zip.folder(`flowlist-${date}`);
-
-        // Create tier subfolders
-        const tierFolders = {
-            A: rootFolder?.folder("A"),
-            B: rootFolder?.folder("B"),
-            C: rootFolder?.folder("C"),
-        };
-
-        for (const folder of folders) {
-            if (!folder.tier) continue;
-            const tierFolder = tierFolders[folder.tier];
-
-            // Collect all tasks (flattening the tree for export)
-            const collectTasks = (nodes: TaskNode[], prefix: string = ""): string[] => {
-                const lines: string[] = [];
-                for (const node of nodes) {
-                    const status = node.completed ? "[x]" : "[ ]";
-                    lines.push(`${prefix}- ${status} ${node.text}`);
-                    if (node.children.length > 0) {
-                        lines.push(...collectTasks(node.children, prefix + "  "));
-                    }
-                }
-                return lines;
-            };
 
-            const content = collectTasks(folder.tasks).join("\n");
-            tierFolder?.file(`${folder.name}.txt`, content);
-        }
+        // Only rated folders; the checklist module keeps nesting and completion intact
+        exportFolders(folders.filter(f => f.tier !== null), `flowlist-${date}`)
+            .forEach(({ path, content }) => zip.file(path, content));
 
         const blob = await zip.generateAsync({ type: "blob" });
         const a = document.createElement("a");
@@ -289,7 +299,7 @@ export default function Deconstructor() {
     };
 
     // Recursive task node renderer
-    const renderTaskNode = (node: TaskNode, folderId: number, depth: number = 0) => {
+    const renderTaskNode = (node: Task, folderId: string, depth: number = 0) => {
         const isLoading = loadingTaskId === node.id;
         const hasChildren = node.children.length > 0;
         const isMilestone = node.text.startsWith("🎯");
@@ -311,8 +321,9 @@ export default function Deconstructor() {
                     {/* Show deconstruct button for items without children (leaves) */}
                     {isLeaf && !node.completed && (
                         <button
-                            onClick={() => deconstructTask(folderId, node.id)}
+                            onClick={(e) => deconstructTask(folderId, node.id, e.shiftKey)}
                             disabled={isLoading}
+                            title="Shift-click for a fresh answer instead of the cached one"
                             className="opacity-0 group-hover:opacity-100 text-xs px-2 py-0.5 bg-[var(--primary)] text-black rounded hover:opacity-80 disabled:opacity-50 transition-opacity"
                         >
                             {isLoading ? "..." : "⚛️ Break down"}
@@ -334,22 +345,16 @@ export default function Deconstructor() {
         );
     };
 
-    // Sort folders: A first, then by task count (fewest first)
+    // Sort folders: best tier first, then by task count (fewest first)
     const sortedFolders = [...folders].sort((a, b) => {
-        const tierOrder: Record<string, number> = { A: 0, B: 1, C: 2 };
-        const diff = (a.tier ? tierOrder[a.tier] : 3) - (b.tier ? tierOrder[b.tier] : 3);
+        const rank = (f: Folder) => f.tier ? RATED_TIERS.indexOf(f.tier) : RATED_TIERS.length;
+        const diff = rank(a) - rank(b);
         return diff !== 0 ? diff : a.tasks.length - b.tasks.length;
     });
 
     const unsortedFolders = folders.filter(f => f.tier === null);
     const currentTinderFolder = unsortedFolders[0];
 
-    const tierColors = {
-        A: { bg: "border-green-500/50", label: "bg-green-500 text-black", text: "text-green-400" },
-        B: { bg: "border-yellow-500/50", label: "bg-yellow-500 text-black", text: "text-yellow-400" },
-        C: { bg: "border-red-500/50", label: "bg-red-500 text-white", text: "text-red-400" }
-    };
-
 
 
     return (
@@ -363,6 +368,12 @@ export default function Deconstructor() {
         </Link>
             </div>
 
+            <StorageIssueBanner />
+
+            {breakdownError && (
+                <p className="mb-4 text-xs text-center text-red-400">Break-down failed: {breakdownError}</p>
+            )}
+
             {/* UPLOAD */}
             {viewMode === "upload" && (
                 <div>
@@ -396,28 +407,40 @@ export default function Deconstructor() {
                             {currentTinderFolder.tasks.length > 5 && <div>...and {currentTinderFolder.tasks.length - 5} more</div>}
                         </div>
                     </div>
-                    <div className="flex justify-center gap-4">
-                        <button onClick={() => assignTier("C")} className="w-16 h-16 rounded-full bg-red-500 text-white text-2xl font-bold hover:scale-110 transition-transform">C</button>
-                        <button onClick={() => assignTier("B")} className="w-16 h-16 rounded-full bg-yellow-500 text-black text-2xl font-bold hover:scale-110 transition-transform">B</button>
-                        <button onClick={() => assignTier("A")} className="w-16 h-16 rounded-full bg-green-500 text-black text-2xl font-bold hover:scale-110 transition-transform">A</button>
+                    <div className="flex justify-center gap-3 flex-wrap">
+                        {[...RATED_TIERS].reverse().map(tier => (
+                            <button
+                                key={tier}
+                                onClick={() => assignTier(tier)}
+                                className={`w-14 h-14 rounded-full ${TIER_COLORS[tier]} text-white text-2xl font-bold hover:scale-110 transition-transform`}
+                            >
+                                {tier}
+                            </button>
+                        ))}
                     </div>
-                    <p className="text-xs text-[var(--muted-foreground)] mt-4">C = Later • B = Medium • A = Priority</p>
+                    <p className="text-xs text-[var(--muted-foreground)] mt-4">
+                        {[...RATED_TIERS].reverse().map(tier => `${tier} = ${TIER_LABELS[tier]}`).join(" • ")}
+                    </p>
 
                     {/* Undo button */}
-                    {sortHistory.length > 0 && (
+                    {(undoLabel || unsortedFolders.length < folders.length) && (
                         <div className="flex flex-col items-center gap-2 mt-4">
-                            <button
-                                onClick={undoLastSort}
-                                className="text-sm text-[var(--primary)] hover:underline flex items-center gap-1"
-                            >
-                                ↩️ Undo last ({sortHistory[sortHistory.length - 1]})
-                            </button>
-                            <button
-                                onClick={resetAllRatings}
-                                className="text-xs text-red-400 hover:underline"
-                            >
-                                🔄 Reset all ratings (back to 1/{folders.length})
-                            </button>
+                            {undoLabel && (
+                                <button
+                                    onClick={undo}
+                                    className="text-sm text-[var(--primary)] hover:underline flex items-center gap-1"
+                                >
+                                    ↩️ Undo last ({undoLabel})
+                                </button>
+                            )}
+                            {unsortedFolders.length < folders.length && (
+                                <button
+                                    onClick={resetAllRatings}
+                                    className="text-xs text-red-400 hover:underline"
+                                >
+                                    🔄 Reset all ratings (back to 1/{folders.length})
+                                </button>
+                            )}
                         </div>
                     )}
                 </div>
@@ -429,7 +452,15 @@ export default function Deconstructor() {
                     <div className="flex justify-between items-center mb-4">
                         <h2 className="font-semibold">📋 Task Tree</h2>
                         <div className="flex gap-2">
+                            {unsortedFolders.length > 0 && (
+                                <button onClick={() => setViewMode("tinder")} className="text-xs text-[var(--primary)]">
+                                    Rate {unsortedFolders.length} unrated
+                                </button>
+                            )}
+                            <button onClick={undo} disabled={!undoLabel} title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : "Nothing to undo"} className="text-xs disabled:opacity-30">↩️</button>
+                            <button onClick={redo} disabled={!redoLabel} title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"} className="text-xs disabled:opacity-30">↪️</button>
                             <button onClick={downloadSortedZip} className="text-xs px-2 py-1 bg-[var(--primary)] text-black rounded">📥 ZIP</button>
+                            <button onClick={() => setShowCalendarExport(true)} className="text-xs px-2 py-1 bg-[var(--primary)] text-black rounded">📅 ICS</button>
                             <button onClick={() => fileInputRef.current?.click()} className="text-xs text-[var(--primary)]">+Upload</button>
                             <button onClick={reset} className="text-xs text-red-400">Reset</button>
                         </div>
@@ -437,40 +468,40 @@ export default function Deconstructor() {
                     </div>
 
                     {/* Group by tier */}
-                    {(["A", "B", "C"] as const).map(tier => {
+                    {RATED_TIERS.map(tier => {
                         const tierFolders = sortedFolders.filter(f => f.tier === tier);
                         if (tierFolders.length === 0) return null;
 
                         return (
                             <div key={tier} className="mb-6">
                                 <div className="flex items-center gap-2 mb-2">
-                                    <span className={`text-xs font-bold px-2 py-1 rounded ${tierColors[tier].label}`}>{tier}</span>
-                                    <span className={`text-sm font-semibold ${tierColors[tier].text}`}>
-                                        {tier === "A" ? "Priority" : tier === "B" ? "Medium" : "Later"}
+                                    <span className={`text-xs font-bold px-2 py-1 rounded text-white ${TIER_COLORS[tier]}`}>{tier}</span>
+                                    <span className="text-sm font-semibold">
+                                        {TIER_LABELS[tier]}
                                     </span>
                                     <span className="text-xs text-[var(--muted-foreground)]">({tierFolders.length} folders)</span>
                                 </div>
 
-                                <div className={`space-y-2 border-l-2 ${tierColors[tier].bg} pl-3`}>
+                                <div className="space-y-2 border-l-2 border-[var(--border)] pl-3">
                                     {tierFolders.map((folder) => {
-                                        const globalIdx = folders.findIndex(f => f.name === folder.name);
                                         const completedTasks = folder.tasks.filter(t => t.completed).length;
+                                        const folderComplete = isFolderComplete(folder);
 
                                         return (
-                                            <div key={folder.name} className={`bg-[var(--card)] border border-[var(--border)] rounded-lg overflow-hidden ${folder.completed ? "opacity-50" : ""}`}>
+                                            <div key={folder.id} className={`bg-[var(--card)] border border-[var(--border)] rounded-lg overflow-hidden ${folderComplete ? "opacity-50" : ""}`}>
                                                 {/* Folder header */}
                                                 <div
                                                     className="p-3 flex items-center gap-2 cursor-pointer hover:bg-[var(--border)]/20"
-                                                    onClick={() => toggleFolderExpand(globalIdx)}
+                                                    onClick={() => toggleFolderExpand(folder.id)}
                                                 >
                                                     <input
                                                         type="checkbox"
-                                                        checked={folder.completed}
-                                                        onChange={(e) => { e.stopPropagation(); toggleFolderComplete(globalIdx); }}
+                                                        checked={folderComplete}
+                                                        onChange={(e) => { e.stopPropagation(); toggleFolderComplete(folder.id); }}
                                                         className="w-5 h-5 accent-green-500"
                                                     />
                                                     <span className="text-lg">{folder.expanded ? "📂" : "📁"}</span>
-                                                    <span className={`flex-1 font-medium ${folder.completed ? "line-through" : ""}`}>
+                                                    <span className={`flex-1 font-medium ${folderComplete ? "line-through" : ""}`}>
                                                         {folder.name}
                                                     </span>
                                                     <span className="text-xs text-[var(--muted-foreground)]">
@@ -478,12 +509,12 @@ export default function Deconstructor() {
                                                     </span>
                                                     {/* Tier change buttons */}
                                                     <div className="flex gap-1 ml-2" onClick={(e) => e.stopPropagation()}>
-                                                        {(["A", "B", "C"] as const).map(t => (
+                                                        {RATED_TIERS.map(t => (
                                                             <button
                                                                 key={t}
-                                                                onClick={() => changeFolderTier(globalIdx, t)}
+                                                                onClick={() => changeFolderTier(folder.id, t)}
                                                                 className={`w-5 h-5 text-[10px] font-bold rounded ${folder.tier === t
-                                                                    ? t === "A" ? "bg-green-500 text-black" : t === "B" ? "bg-yellow-500 text-black" : "bg-red-500 text-white"
+                                                                    ? `${TIER_COLORS[t]} text-white`
                                                                     : "bg-[var(--border)] text-[var(--muted-foreground)] hover:opacity-80"
                                                                     }`}
                                                             >
@@ -499,7 +530,7 @@ export default function Deconstructor() {
                                                         <div
                                                             className={`h-full transition-all duration-300 ${completedTasks === folder.tasks.length
                                                                 ? "bg-green-500"
-                                                                : tier === "A" ? "bg-green-400" : tier === "B" ? "bg-yellow-400" : "bg-red-400"
+                                                                : TIER_COLORS[tier]
                                                                 }`}
                                                             style={{ width: `${folder.tasks.length > 0 ? (completedTasks / folder.tasks.length) * 100 : 0}%` }}
                                                         />
@@ -509,7 +540,7 @@ export default function Deconstructor() {
                                                 {/* Tasks tree */}
                                                 {folder.expanded && (
                                                     <div className="border-t border-[var(--border)] p-3 bg-[var(--border)]/5">
-                                                        {folder.tasks.map(task => renderTaskNode(task, globalIdx))}
+                                                        {folder.tasks.map(task => renderTaskNode(task, folder.id))}
                                                     </div>
                                                 )}
                                             </div>
@@ -525,6 +556,10 @@ export default function Deconstructor() {
                     </p>
                 </div>
             )}
+
+            {showCalendarExport && (
+                <CalendarExport folders={folders.filter(f => f.tier === "A")} onClose={() => setShowCalendarExport(false)} />
+            )}
         </main>
     );
 }
@@ -1,39 +1,227 @@
 "use client";
 
 import { useState, useCallback, useRef, useEffect } from "react";
+import Link from "next/link";
 import JSZip from "jszip";
-import { get, set } from "idb-keyval";
-import { Folder, Task, Tier, SortResponse, TIERS, TIER_COLORS } from "@/lib/types";
+import { BucketAlias, Folder, Task, Tier, SortBatchPlan, SortExample, SortResponse, SortStreamEvent, TIERS, TIER_COLORS } from "@/lib/types";
+import { readSSE } from "@/lib/sse";
+import type { PromptInfo } from "@/lib/prompts";
+import { exportFolders, isChecklistPath, parseChecklistFile } from "@/lib/checklist";
+import { ImportError, ImportPreview, isImportFile, parseImport } from "@/lib/importers";
+import {
+  createWorkspaceBundle,
+  isWorkspaceFile,
+  mergeWorkspace,
+  parseWorkspaceBundle,
+  ParsedWorkspace,
+  WorkspaceImportError,
+} from "@/lib/workspace";
+import { loadFolders, saveFolders } from "@/lib/store";
+import { loadHistory, saveHistory } from "@/lib/history";
+import { addSnapshots, deleteSnapshot, loadSnapshots, Snapshot, takeSnapshot } from "@/lib/snapshots";
+import { useFolderHistory } from "@/lib/use-folder-history";
+import { CAPTURE_SHORTCUT_LABEL, useQuickCapture } from "@/lib/use-quick-capture";
+import { GroupedLine, joinGroups } from "@/lib/capture";
+import { extractActionItems, Extraction } from "@/lib/extract";
+import {
+  SortJob,
+  createSortJob,
+  failRunningBatches,
+  isJobComplete,
+  loadSortJob,
+  saveSortJob,
+  unfinishedBatches,
+  updateBatch,
+  updateBatches,
+} from "@/lib/sort-job";
+import { collectTaskRefs, DuplicateReport, findDuplicates } from "@/lib/dedup";
+import { ClassifierComparison, compareWithLocal, LocalClassifier, trainLocalClassifier } from "@/lib/local-classifier";
+import { buildFewShotExamples, Correction, loadCorrections, recordCorrection, saveCorrections } from "@/lib/corrections";
+import {
+  addAlias,
+  aliasesFor,
+  liveAliases,
+  applyAliases,
+  loadBucketAliases,
+  mergeFolders,
+  mergeImportedFolders,
+  mergeTaskLists,
+  removeAlias,
+  renameFolder,
+  resolveBucket,
+  saveBucketAliases,
+  splitFolder,
+} from "@/lib/taxonomy";
 import { FolderCard } from "@/components/FolderCard";
+import { ComparisonPanel } from "@/components/ComparisonPanel";
+import { DedupReview, MergeDecision } from "@/components/DedupReview";
+import { StorageIssueBanner } from "@/components/StorageIssueBanner";
+import { SnapshotTimeline } from "@/components/SnapshotTimeline";
+import { UsagePanel } from "@/components/UsagePanel";
+import { PromptComparePanel } from "@/components/PromptComparePanel";
+import { QuickCapture } from "@/components/QuickCapture";
+import { ExtractionReview } from "@/components/ExtractionReview";
+import { ImportReview } from "@/components/ImportReview";
+import { WorkspaceImportMode, WorkspaceImportReview } from "@/components/WorkspaceImportReview";
 
 function generateId(): string {
   return Math.random().toString(36).substring(2, 11);
 }
 
+// Tasks from the board offered as the starting batch when comparing prompt versions
+const PROMPT_COMPARE_SAMPLE = 20;
+
+type SortStreamRequest = {
+  existingBuckets: string[];
+  examples?: SortExample[];
+  aliases?: BucketAlias[];
+  fresh?: boolean;
+  // Usage of every request for one sort job is totalled under this id
+  importId?: string;
+  promptVersion?: string;
+} & ({ content: string } | { batches: SortBatchPlan[] });
+
+// The provider is missing, unreachable or over the monthly budget, as opposed to a bad response
+class ProviderUnavailableError extends Error {}
+
+// Top-level texts already on the board are skipped rather than re-sorted
+function isKnownTask(folders: Folder[], line: string): boolean {
+  return folders.some(f =>
+    f.tasks.some(t => t.text.toLowerCase() === line.toLowerCase())
+  );
+}
+
+// The lines whose text is kept, in the order written; a text repeated in the dump is kept once
+function keepLines(lines: GroupedLine[], kept: string[]): GroupedLine[] {
+  const remaining = new Set(kept);
+  return lines.filter(line => remaining.delete(line.text));
+}
+
+// Removes a task (at any depth) from a tree, returning it alongside what's left
+function extractTask(tasks: Task[], taskId: string): { remaining: Task[]; task: Task | null } {
+  let found: Task | null = null;
+  const remaining: Task[] = [];
+  for (const t of tasks) {
+    if (t.id === taskId) {
+      found = t;
+      continue;
+    }
+    const child: { remaining: Task[]; task: Task | null } = found
+      ? { remaining: t.children, task: null }
+      : extractTask(t.children, taskId);
+    if (child.task) found = child.task;
+    remaining.push(child.task ? { ...t, children: child.remaining } : t);
+  }
+  return { remaining, task: found };
+}
+
+// New buckets are appended untiered, like any other freshly sorted folder
+function addTaskToBucket(folders: Folder[], bucket: string, text: string): Folder[] {
+  const task: Task = { id: generateId(), text, completed: false, children: [] };
+  if (folders.some(f => f.name === bucket)) {
+    return folders.map(f => f.name === bucket ? { ...f, tasks: [...f.tasks, task] } : f);
+  }
+  return [...folders, { id: generateId(), name: bucket, tier: null, tasks: [task], expanded: false }];
+}
+
 export default function Home() {
-  const [folders, setFolders] = useState<Folder[]>([]);
+  const { folders, history, setFolders, commit, beginBatch, endBatch, undo, redo, undoLabel, redoLabel, reset } = useFolderHistory();
   const [isDragActive, setIsDragActive] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isLoaded, setIsLoaded] = useState(false);
   const [progress, setProgress] = useState({ current: 0, total: 0 });
   const [draggedFolderId, setDraggedFolderId] = useState<string | null>(null);
+  const [sortJob, setSortJob] = useState<SortJob | null>(null);
+  const [sortError, setSortError] = useState<string | null>(null);
+  const [dedupReview, setDedupReview] = useState<{ lines: GroupedLine[]; report: DuplicateReport } | null>(null);
+  const [semanticDedup, setSemanticDedup] = useState(false);
+  const [reuseCachedAnswers, setReuseCachedAnswers] = useState(true);
+  const [showUsage, setShowUsage] = useState(false);
+  const [sortPrompts, setSortPrompts] = useState<PromptInfo[]>([]);
+  // Empty means the server's default version
+  const [sortPromptVersion, setSortPromptVersion] = useState("");
+  const [showPromptCompare, setShowPromptCompare] = useState(false);
+  const [sortNotice, setSortNotice] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<ClassifierComparison | null>(null);
+  const [corrections, setCorrections] = useState<Correction[]>([]);
+  const [aliases, setAliases] = useState<BucketAlias[]>([]);
+  const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null);
+  const [importReview, setImportReview] = useState<{ fileName: string; preview: ImportPreview } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [workspaceReview, setWorkspaceReview] = useState<{ fileName: string; workspace: ParsedWorkspace } | null>(null);
+  const [capture, setCapture] = useState<{ text: string } | null>(null);
+  const [extractionReview, setExtractionReview] = useState<Extraction | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Pasting outside a text field opens capture pre-filled; the shortcut works from any page
+  const openCapture = useCallback(() => setCapture(prev => prev ?? { text: "" }), []);
+  const captureFromPaste = useCallback((text: string) => setCapture({ text }), []);
+  useQuickCapture({ onOpen: openCapture, onPaste: captureFromPaste });
+
+  // Other pages send the shortcut here as /?capture
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (!params.has("capture")) return;
+    openCapture();
+    window.history.replaceState(null, "", window.location.pathname);
+  }, [openCapture]);
+
+  // Prompt versions are optional: without the list, sorting just uses the default prompt
+  useEffect(() => {
+    fetch("/api/prompts")
+      .then(response => response.ok ? response.json() : { prompts: [] })
+      .then(({ prompts }: { prompts: PromptInfo[] }) => setSortPrompts(prompts.filter(p => p.name === "sort")))
+      .catch(() => setSortPrompts([]));
+  }, []);
+
   // Load from IndexedDB
   useEffect(() => {
-    get("flowlist-folders").then((saved) => {
-      if (saved) setFolders(saved);
+    Promise.all([
+      loadFolders(),
+      loadHistory(),
+      loadSortJob(),
+      loadCorrections(),
+      loadBucketAliases(),
+    ]).then(([saved, savedHistory, job, savedCorrections, savedAliases]) => {
+      reset(saved, savedHistory);
+      setSortJob(job);
+      setCorrections(savedCorrections);
+      setAliases(savedAliases);
       setIsLoaded(true);
     });
-  }, []);
+  }, [reset]);
 
   // Save to IndexedDB
   useEffect(() => {
     if (isLoaded) {
-      set("flowlist-folders", folders);
+      saveFolders(folders);
     }
   }, [folders, isLoaded]);
 
+  useEffect(() => {
+    if (isLoaded) {
+      saveHistory(history);
+    }
+  }, [history, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) {
+      saveSortJob(sortJob);
+    }
+  }, [sortJob, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) {
+      saveCorrections(corrections);
+    }
+  }, [corrections, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) {
+      saveBucketAliases(aliases);
+    }
+  }, [aliases, isLoaded]);
+
   // File handling
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -47,199 +235,349 @@ export default function Home() {
     if (f.name.endsWith(".zip")) {
       const zip = new JSZip();
       await zip.loadAsync(f);
-      const newFolders: Folder[] = [];
 
-      const processFile = async (relativePath: string, file: JSZip.JSZipObject) => {
-        if (file.dir) return; // Skip directories
-        if (relativePath.startsWith("__MACOSX/") || relativePath.includes(".DS_Store")) return; // Skip junk
+      // Keep the archive's order rather than whichever file finishes reading first
+      const entries: { path: string; file: JSZip.JSZipObject }[] = [];
+      zip.forEach((path, file) => {
+        if (!file.dir && isChecklistPath(path)) entries.push({ path, file });
+      });
+      const newFolders: Folder[] = await Promise.all(entries.map(async ({ path, file }) => ({
+        ...parseChecklistFile(path, await file.async("string")),
+        id: generateId(),
+        expanded: false,
+      })));
+
+      // Files merge into the board folder of the same name; files of one archive never replace each
+      // other, so two "Work" folders exported from one tier come back as two folders
+      await takeSnapshot(folders, `Before importing ${f.name}`);
+      commit(`Import ${f.name}`, prev => {
+        const active = liveAliases(aliases, prev);
+        const merged = [...prev];
+        newFolders.forEach(folder => {
+          // A file named after an alias folds into its canonical folder instead of reviving the old name
+          const canonical = resolveBucket(active, folder.name);
+          const index = prev.findIndex(existing => existing.name === canonical);
+          if (index === -1) {
+            merged.push(folder);
+            return;
+          }
+          merged[index] = {
+            ...merged[index],
+            tier: folder.tier ?? merged[index].tier,
+            tasks: mergeTaskLists(merged[index].tasks, folder.tasks),
+          };
+        });
+        return merged;
+      });
 
-        const text = await file.async("string");
-        const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0);
+      return;
+    }
 
-        // Parse tiers from path (e.g., "A/Work.txt" or "Work.txt")
-        const parts = relativePath.split("/");
-        const fileName = parts[parts.length - 1].replace(/\.(txt|md)$/, "");
+    // Exports from other task managers are previewed before anything is merged
+    if (isImportFile(f.name)) {
+      setImportError(null);
+      const text = await f.text();
+      try {
+        if (isWorkspaceFile(text)) setWorkspaceReview({ fileName: f.name, workspace: parseWorkspaceBundle(text) });
+        else setImportReview({ fileName: f.name, preview: parseImport(f.name, text) });
+      } catch (error) {
+        if (!(error instanceof ImportError || error instanceof WorkspaceImportError)) throw error;
+        setImportError(error.message);
+      }
+      return;
+    }
 
-        // Check for tier in path or filename prefix
-        let tier: Tier = null;
-        let cleanName = fileName;
+    if (!f.name.endsWith(".txt") && !f.name.endsWith(".md")) return;
+    const content = await f.text();
+    await processContent(content);
+  };
 
-        // Check path (e.g. "A/Folder.txt")
-        if (parts.length > 1) {
-          const parentDir = parts[parts.length - 2];
-          if (["S", "A", "B", "C", "D", "F"].includes(parentDir)) {
-            tier = parentDir as Tier;
-          }
-        }
+  const confirmImport = async (imported: Folder[]) => {
+    if (!importReview) return;
+    const { fileName } = importReview;
+    setImportReview(null);
+    await takeSnapshot(folders, `Before importing ${fileName}`);
+    commit(`Import ${fileName}`, prev => mergeImportedFolders(prev, liveAliases(aliases, prev), imported));
+  };
 
-        // Also check filename prefix (e.g. "[A] Folder.txt") for back-compat
-        const tierMatch = fileName.match(/^\^([SABCDF])\]\s*(.+)/);
-        if (tierMatch) {
-          tier = tierMatch[1] as Tier;
-          cleanName = tierMatch[2];
-        }
+  const confirmWorkspaceImport = async (mode: WorkspaceImportMode) => {
+    if (!workspaceReview) return;
+    const { fileName, workspace: { data } } = workspaceReview;
+    setWorkspaceReview(null);
+    await takeSnapshot(folders, `Before importing ${fileName}`);
+    await addSnapshots(data.snapshots);
+
+    if (mode === "replace") {
+      // The undo history comes along; the restore point above is the way back
+      reset(data.folders, data.history);
+      setAliases(data.aliases);
+      setCorrections(data.corrections);
+      setSemanticDedup(data.settings.semanticDedup);
+      return;
+    }
+    const merged = mergeWorkspace({ folders, aliases, corrections }, data);
+    commit(`Import ${fileName}`, merged.folders);
+    setAliases(merged.aliases);
+    setCorrections(merged.corrections);
+  };
+
+  // Not memoized: handleFile reads the current folders and aliases
+  const handleFileDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragActive(false);
+    if (e.dataTransfer.files?.[0]) handleFile(e.dataTransfer.files[0]);
+  };
 
-        // Parse checksum/count suffix if present (e.g. "Folder (5)")
-        cleanName = cleanName.replace(/\s*\(\d+\)$/, "");
+  // Classify locally when the AI provider can't be reached; nothing leaves the browser
+  const sortLocally = (lines: string[], classifier: LocalClassifier, reason: string) => {
+    const result = applyAliases(classifier.classifyBatch(lines), liveAliases(aliases, folders));
+    setFolders(prev => result.tasks.reduce((acc, t) => addTaskToBucket(acc, t.bucket, t.text), prev));
+    setSortNotice(`AI unavailable (${reason}): sorted ${result.tasks.length} tasks with the offline classifier`);
+  };
 
-        const tasks: Task[] = [];
-        const taskStack: { task: Task; level: number }[] = [];
+  // Streams a sort request, committing each task as it arrives and recording batch status on the job.
+  // The whole import (streamed or offline) is a single undo step.
+  const runSortStream = async (body: SortStreamRequest, resume: boolean) => {
+    setIsProcessing(true);
+    await takeSnapshot(folders, resume ? "Before resuming AI sort" : "Before AI sort");
+    beginBatch(resume ? "Resume sort" : "Sort import");
+    setSortError(null);
+    setSortNotice(null);
+    setComparison(null);
+    setProgress({ current: 0, total: 0 });
 
-        lines.forEach(line => {
-          const indentMatch = line.match(/^(\s*)/);
-          const indent = indentMatch ? indentMatch[1].length : 0;
-          const level = Math.floor(indent / 2); // Assume 2 spaces per level
+    // Trained before this import lands, so the comparison isn't graded against its own answers
+    const baseline = trainLocalClassifier(folders);
+    const assignments: SortResponse["tasks"] = [];
+    // Batches the provider couldn't take (down, overloaded, budget spent) go to the offline classifier
+    const offline: { indexes: number[]; lines: string[]; reason: string } = { indexes: [], lines: [], reason: "" };
 
-          const cleanLine = line.replace(/^\s*-\s*\[([ xX])\]\s*/, "") // Remove "- [ ]"
-            .replace(/^\s*-\s*/, ""); // OR remove just "- "
-          const completed = line.includes("[x]") || line.includes("[X]");
+    const jobId = resume && sortJob ? sortJob.id : generateId();
 
-          const newTask: Task = {
-            id: generateId(),
-            text: cleanLine,
-            completed,
-            children: []
-          };
+    try {
+      // The server batches the dump and streams each assignment as soon as it's sorted
+      const response = await fetch("/api/sort/stream", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...body, importId: jobId }),
+      }).catch((err: Error) => {
+        throw new ProviderUnavailableError(err.message);
+      });
 
-          if (level === 0) {
-            tasks.push(newTask);
-            taskStack.length = 0; // Reset stack
-            taskStack.push({ task: newTask, level: 0 });
-          } else {
-            // Find parent
-            while (taskStack.length > 0 && taskStack[taskStack.length - 1].level >= level) {
-              taskStack.pop();
-            }
-            const parent = taskStack[taskStack.length - 1];
-            if (parent) {
-              parent.task.children.push(newTask);
-              taskStack.push({ task: newTask, level });
-            } else {
-              // Fallback if indentation is weird
-              tasks.push(newTask);
-              taskStack.push({ task: newTask, level: 0 });
-            }
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        const message = errorData.error || `Processing failed: ${response.status}`;
+        const unavailable = errorData.code === "provider_unavailable" || errorData.code === "budget_exceeded";
+        throw unavailable ? new ProviderUnavailableError(message) : new Error(message);
+      }
+
+      for await (const message of readSSE(response)) {
+        const event: SortStreamEvent = JSON.parse(message.data);
+        switch (event.type) {
+          case "start": {
+            const indexes = event.batches.map(b => b.index);
+            setProgress({ current: 0, total: event.totalBatches });
+            setSortJob(prev => updateBatches(
+              resume && prev ? prev : createSortJob(jobId, event.batches),
+              indexes,
+              "running"
+            ));
+            break;
           }
-        });
+          case "task":
+            assignments.push({ text: event.text, bucket: event.bucket });
+            setFolders(prev => addTaskToBucket(prev, event.bucket, event.text));
+            break;
+          case "batch-done":
+            setProgress(prev => ({ ...prev, current: prev.current + 1 }));
+            setSortJob(prev => prev && updateBatch(prev, event.index, "done"));
+            break;
+          case "batch-error":
+            console.error(`Batch ${event.index + 1} failed:`, event.error);
+            setProgress(prev => ({ ...prev, current: prev.current + 1 }));
+            if (event.unavailable) {
+              offline.indexes.push(event.index);
+              offline.lines.push(...event.lines);
+              offline.reason ||= event.error;
+              break;
+            }
+            setSortJob(prev => prev && updateBatch(prev, event.index, "failed", event.error));
+            break;
+          case "error":
+            throw new Error(event.error);
+        }
+      }
 
-        if (tasks.length > 0) {
-          newFolders.push({
-            id: generateId(),
-            name: cleanName,
-            tier,
-            tasks,
-            expanded: false
-          });
+      if (offline.lines.length > 0) {
+        sortLocally(offline.lines, baseline, offline.reason);
+        setSortJob(prev => prev && updateBatches(prev, offline.indexes, "done"));
+      }
+
+      if (assignments.length > 0 && baseline.trainedOn > 0) {
+        setComparison(compareWithLocal(baseline, { tasks: assignments }));
+      }
+    } catch (err) {
+      console.error(err);
+      const message = err instanceof Error ? err.message : "Processing failed";
+
+      if (err instanceof ProviderUnavailableError) {
+        // Nothing reached the board yet, so the whole request can be classified offline
+        const lines = "batches" in body ? body.batches.flatMap(b => b.lines) : body.content.split("\n");
+        sortLocally(lines, baseline, message);
+        if ("batches" in body) {
+          const indexes = body.batches.map(b => b.index);
+          setSortJob(prev => prev && updateBatches(prev, indexes, "done"));
         }
-      };
+      } else {
+        setSortError(message);
+        setSortJob(prev => prev && failRunningBatches(prev, message));
+      }
+    } finally {
+      endBatch();
+      setIsProcessing(false);
+      setSortJob(prev => prev && isJobComplete(prev) ? null : prev);
+    }
+  };
 
-      const promises: Promise<void>[] = [];
-      zip.forEach((relativePath, file) => {
-        promises.push(processFile(relativePath, file));
-      });
+  // Folder names, past corrections (following renames) and aliases sent with every sort request
+  const sortContext = () => {
+    const existingBuckets = folders.map(f => f.name);
+    const active = liveAliases(aliases, folders);
+    const resolved = corrections.map(c => ({ ...c, to: resolveBucket(active, c.to) }));
+    return {
+      existingBuckets,
+      examples: buildFewShotExamples(resolved, existingBuckets),
+      aliases: active,
+      fresh: !reuseCachedAnswers,
+      promptVersion: sortPromptVersion || undefined,
+    };
+  };
 
-      await Promise.all(promises);
+  // Grouped lines go out indented, so a task and its subtasks are sorted in the same batch
+  const sortLines = async (lines: GroupedLine[]) => {
+    if (lines.length === 0) return;
+    await runSortStream({ content: joinGroups(lines), ...sortContext() }, false);
+  };
 
-      // Update state, merging with existing
-      setFolders(prev => {
-        const existingMap = new Map(prev.map(f => [f.name, f]));
-        newFolders.forEach(f => {
-          existingMap.set(f.name, f);
-        });
-        return Array.from(existingMap.values());
+  // Embeddings are optional: if the provider can't embed, fuzzy matching still runs
+  const fetchEmbeddings = async (texts: string[]): Promise<Map<string, number[]> | undefined> => {
+    const unique = Array.from(new Set(texts));
+    try {
+      const response = await fetch("/api/embed", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ texts: unique }),
       });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Embedding failed: ${response.status}`);
+      }
+      const { vectors }: { vectors: number[][] } = await response.json();
+      return new Map(unique.map((text, i) => [text, vectors[i]]));
+    } catch (err) {
+      console.warn("Semantic dedup unavailable, using fuzzy matching only:", err);
+      return undefined;
+    }
+  };
 
+  // Headings, attendee lists, greetings and prose are dropped before sorting; show what went and why
+  const processContent = async (content: string) => {
+    const extraction = extractActionItems(content);
+    if (extraction.discarded.length > 0 || extraction.items.some(i => i.split)) {
+      setExtractionReview(extraction);
       return;
     }
+    await coalesceLines(extraction.items);
+  };
 
-    if (!f.name.endsWith(".txt") && !f.name.endsWith(".md")) return;
-    const content = await f.text();
-    await processContent(content);
+  const confirmExtraction = async (lines: GroupedLine[]) => {
+    setExtractionReview(null);
+    await coalesceLines(lines);
   };
 
-  const handleFileDrop = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setIsDragActive(false);
-    if (e.dataTransfer.files?.[0]) handleFile(e.dataTransfer.files[0]);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  const coalesceLines = async (allLines: GroupedLine[]) => {
+    if (allLines.length === 0) return;
 
-  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    const texts = allLines.map(line => line.text);
+    const embeddings = semanticDedup
+      ? await fetchEmbeddings([...texts, ...collectTaskRefs(folders).map(r => r.text)])
+      : undefined;
+    const report = findDuplicates(texts, folders, { embeddings });
 
-  const processContent = async (content: string) => {
-    const allLines = content.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0);
-    const newLines = allLines.filter(line => {
-      const inExisting = folders.some(f =>
-        f.tasks.some(t => t.text.toLowerCase() === line.toLowerCase())
-      );
-      return !inExisting;
-    });
+    // Near-duplicates need a human decision before anything is sent to /api/sort
+    if (report.near.length > 0) {
+      setDedupReview({ lines: allLines, report });
+      return;
+    }
 
-    if (newLines.length === 0) return;
+    await sortLines(keepLines(allLines, report.unique));
+  };
 
-    const BATCH_SIZE = 30;
-    const batches: string[][] = [];
-    for (let i = 0; i < newLines.length; i += BATCH_SIZE) {
-      batches.push(newLines.slice(i, i + BATCH_SIZE));
-    }
+  const submitCapture = async (text: string) => {
+    setCapture(null);
+    await processContent(text);
+  };
 
-    setIsProcessing(true);
-    setProgress({ current: 0, total: batches.length });
+  const replaceTaskText = (folderId: string, taskId: string, text: string) => {
+    commit("Replace duplicate wording", prev => prev.map(f => {
+      if (f.id !== folderId) return f;
 
-    const newFolders = new Map<string, Task[]>();
-    folders.forEach(f => newFolders.set(f.name, [...f.tasks]));
+      const replaceInTree = (tasks: Task[]): Task[] =>
+        tasks.map(t => t.id === taskId
+          ? { ...t, text }
+          : { ...t, children: replaceInTree(t.children) }
+        );
 
-    try {
-      for (let i = 0; i < batches.length; i++) {
-        const response = await fetch("/api/sort", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            batch: batches[i],
-            existingBuckets: Array.from(newFolders.keys())
-          }),
-        });
+      return { ...f, tasks: replaceInTree(f.tasks) };
+    }));
+  };
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error || `Processing failed: ${response.status}`);
+  const confirmDedup = async (decisions: MergeDecision[]) => {
+    if (!dedupReview) return;
+    const { lines, report } = dedupReview;
+    setDedupReview(null);
+
+    const kept = new Set(report.unique);
+    const dropped = new Set<string>();
+    report.near.forEach((match, i) => {
+      const decision = decisions[i];
+      if (decision === "keep") {
+        kept.add(match.line);
+      } else if (decision === "replace") {
+        if (match.match.folderId && match.match.taskId) {
+          replaceTaskText(match.match.folderId, match.match.taskId, match.line);
+        } else {
+          // Matched an earlier line of this same dump: keep this wording instead of that one
+          kept.add(match.line);
+          dropped.add(match.match.text);
         }
-        const data: SortResponse = await response.json();
+      }
+    });
 
-        for (const item of data.tasks) {
-          const task: Task = { id: generateId(), text: item.text, completed: false, children: [] };
-          if (!newFolders.has(item.bucket)) {
-            newFolders.set(item.bucket, []);
-          }
-          newFolders.get(item.bucket)!.push(task);
-        }
+    await sortLines(keepLines(lines, [...kept].filter(text => !dropped.has(text))));
+  };
 
-        setProgress({ current: i + 1, total: batches.length });
-        if (i < batches.length - 1) await delay(300);
-      }
+  // Re-run the unfinished (or only the failed) batches of the saved job
+  const resumeSortJob = async (onlyFailed: boolean) => {
+    if (!sortJob) return;
 
-      // Merge with existing folders, new ones get tier: null
-      const updatedFolders: Folder[] = [];
-      const existingFolderMap = new Map(folders.map(f => [f.name, f]));
-
-      newFolders.forEach((tasks, name) => {
-        const existing = existingFolderMap.get(name);
-        updatedFolders.push({
-          id: existing?.id || generateId(),
-          name,
-          tier: existing?.tier || null,
-          tasks,
-          expanded: existing?.expanded || false,
-        });
-      });
+    // Skip lines that already landed, e.g. from a batch interrupted right after its tasks streamed in
+    const batches = unfinishedBatches(sortJob, onlyFailed).map(b => ({
+      index: b.index,
+      lines: b.lines.filter(line => !isKnownTask(folders, line)),
+    }));
+    const emptyIndexes = batches.filter(b => b.lines.length === 0).map(b => b.index);
+    const toRun = batches.filter(b => b.lines.length > 0);
 
-      setFolders(updatedFolders);
-    } catch (err) {
-      console.error(err);
-    } finally {
-      setIsProcessing(false);
+    const job = updateBatches(sortJob, emptyIndexes, "done");
+    if (toRun.length === 0) {
+      setSortJob(isJobComplete(job) ? null : job);
+      return;
     }
+
+    setSortJob(job);
+    await runSortStream({ batches: toRun, ...sortContext() }, true);
   };
 
   // Drag-drop for tier sorting
@@ -261,7 +599,7 @@ export default function Home() {
     e.preventDefault();
     if (!draggedFolderId) return;
 
-    setFolders(prev => prev.map(f =>
+    commit(tier ? `Move to tier ${tier}` : "Unrank folder", prev => prev.map(f =>
       f.id === draggedFolderId ? { ...f, tier } : f
     ));
     setDraggedFolderId(null);
@@ -276,7 +614,7 @@ export default function Home() {
 
   // Toggle task completion
   const toggleTask = (folderId: string, taskId: string) => {
-    setFolders(prev => prev.map(f => {
+    commit("Toggle task", prev => prev.map(f => {
       if (f.id !== folderId) return f;
 
       const toggleInTree = (tasks: Task[]): Task[] =>
@@ -293,7 +631,7 @@ export default function Home() {
   const addSubtask = (folderId: string, parentTaskId: string, text: string) => {
     if (!text.trim()) return;
 
-    setFolders(prev => prev.map(f => {
+    commit("Add subtask", prev => prev.map(f => {
       if (f.id !== folderId) return f;
 
       const addToTree = (tasks: Task[]): Task[] =>
@@ -306,10 +644,78 @@ export default function Home() {
     }));
   };
 
-  // Clear all
-  const clearAll = () => {
-    setFolders([]);
-    localStorage.removeItem("flowlist-folders");
+  // Move a task (with its subtasks) to another folder, remembering the correction for future sorts
+  const moveTask = (fromFolderId: string, taskId: string, toFolderId: string) => {
+    if (fromFolderId === toFolderId) return;
+    const source = folders.find(f => f.id === fromFolderId);
+    const target = folders.find(f => f.id === toFolderId);
+    if (!source || !target) return;
+
+    const movedTask = extractTask(source.tasks, taskId).task;
+    if (!movedTask) return;
+
+    // Extracted again from the latest folders, so tasks streamed in meanwhile aren't dropped
+    commit(`Move "${movedTask.text}" to ${target.name}`, prev => {
+      const from = prev.find(f => f.id === fromFolderId);
+      if (!from) return prev;
+      const { remaining, task } = extractTask(from.tasks, taskId);
+      if (!task) return prev;
+      return prev.map(f => {
+        if (f.id === fromFolderId) return { ...f, tasks: remaining };
+        if (f.id === toFolderId) return { ...f, tasks: [...f.tasks, task] };
+        return f;
+      });
+    });
+    setCorrections(prev => recordCorrection(prev, {
+      text: movedTask.text,
+      from: source.name,
+      to: target.name,
+      at: Date.now(),
+    }));
+  };
+
+  // Taxonomy: old names stay behind as aliases so future sorts land in the renamed/merged folder
+  // The folder change is applied to the latest folders (a sort may still be streaming in);
+  // aliases only depend on folder names, so the render-time folders are enough for them
+  const renameFolderTo = (folderId: string, name: string) => {
+    commit(`Rename folder to ${name.trim()}`, prev => renameFolder(prev, aliases, folderId, name).folders);
+    setAliases(renameFolder(folders, aliases, folderId, name).aliases);
+  };
+
+  const mergeFolderInto = (folderId: string, targetId: string) => {
+    commit("Merge folders", prev => mergeFolders(prev, aliases, folderId, targetId).folders);
+    setAliases(mergeFolders(folders, aliases, folderId, targetId).aliases);
+  };
+
+  const splitFolderTasks = (folderId: string, taskIds: string[], name: string) => {
+    commit(`Split into ${name.trim()}`, prev => splitFolder(prev, aliases, folderId, taskIds, name));
+  };
+
+  const addFolderAlias = (folderId: string, alias: string) => {
+    const folder = folders.find(f => f.id === folderId);
+    if (!folder) return;
+    // An alias matching another folder's name would shadow it; merge instead
+    if (folders.some(f => f.id !== folderId && f.name.toLowerCase() === alias.trim().toLowerCase())) {
+      alert(`"${alias.trim()}" is already a folder. Use "Merge into…" on it instead.`);
+      return;
+    }
+    setAliases(prev => addAlias(prev, alias, folder.name));
+  };
+
+  // Clear all; undoable like any other change, and snapshotted in case the history is gone too
+  const clearAll = async () => {
+    await takeSnapshot(folders, "Before clear");
+    commit("Clear all", []);
+  };
+
+  const openTimeline = async () => {
+    setSnapshots(await loadSnapshots());
+  };
+
+  const restoreSnapshot = async (snapshot: Snapshot) => {
+    await takeSnapshot(folders, "Before restore");
+    commit(`Restore snapshot from ${new Date(snapshot.at).toLocaleString()}`, snapshot.folders);
+    setSnapshots(null);
   };
 
   // Download ZIP
@@ -317,21 +723,7 @@ export default function Home() {
     const zip = new JSZip();
     const date = new Date().toISOString().split("T")[0];
 
-    TIERS.forEach(tier => {
-      if (!tier) return;
-      const tierFolder = zip.folder(tier);
-      folders.filter(f => f.tier === tier).forEach(folder => {
-        const content = folder.tasks.map(t => `- [${t.completed ? "x" : " "}] ${t.text}`).join("\n");
-        tierFolder?.file(`${folder.name}.txt`, content);
-      });
-    });
-
-    // Unsorted
-    const unsortedFolder = zip.folder("_Unsorted");
-    folders.filter(f => f.tier === null).forEach(folder => {
-      const content = folder.tasks.map(t => `- [${t.completed ? "x" : " "}] ${t.text}`).join("\n");
-      unsortedFolder?.file(`${folder.name}.txt`, content);
-    });
+    exportFolders(folders).forEach(({ path, content }) => zip.file(path, content));
 
     // Generate blob with explicit MIME type
     const blob = await zip.generateAsync({ type: "blob" });
@@ -350,7 +742,29 @@ export default function Home() {
     URL.revokeObjectURL(url);
   };
 
+  const downloadWorkspace = async () => {
+    const bundle = createWorkspaceBundle({
+      folders,
+      history,
+      snapshots: await loadSnapshots(),
+      aliases,
+      corrections,
+      settings: { semanticDedup },
+    });
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `flowlist-workspace-${new Date().toISOString().split("T")[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const unsortedFolders = folders.filter(f => f.tier === null);
+  const unfinished = sortJob ? unfinishedBatches(sortJob) : [];
+  const failed = sortJob ? unfinishedBatches(sortJob, true) : [];
 
   return (
     <main className="min-h-screen p-4 md:p-8 max-w-4xl mx-auto">
@@ -358,8 +772,13 @@ export default function Home() {
       <div className="text-center mb-12">
         <h1 className="text-3xl font-bold tracking-tight mb-2">AntList</h1>
         <p className="text-[var(--muted-foreground)] text-sm font-mono">Dump → Coalesce → Organize</p>
+        <Link href="/deconstructor" className="text-sm text-[var(--muted-foreground)] hover:text-[var(--foreground)] transition-colors font-mono mt-2 inline-block">
+          Break down tasks →
+        </Link>
       </div>
 
+      <StorageIssueBanner />
+
       {/* Drop Zone */}
       <div
         className={`drop-zone rounded-xl p-6 text-center cursor-pointer transition-all mb-6 ${isDragActive ? "active glow-primary" : ""}`}
@@ -372,14 +791,113 @@ export default function Home() {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".txt,.md,.zip"
+          accept=".txt,.md,.zip,.csv,.json,.opml,.xml"
           className="hidden"
           onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
         />
         <div className="text-4xl mb-4">🐜</div>
         <p className="text-sm font-medium">Drop your chaos here</p>
         <p className="text-xs text-[var(--muted-foreground)] mt-2">.txt, .md, or .zip</p>
+        <p className="text-xs text-[var(--muted-foreground)] mt-1">
+          or a workspace backup (.json), or an export from Todoist (.csv), Things, TickTick, Google Tasks (.json) or any outliner (.opml)
+        </p>
+      </div>
+      <div className="flex justify-center -mt-4 mb-2">
+        <button onClick={openCapture} className="text-xs text-[var(--muted-foreground)] hover:underline">
+          ✍️ Quick capture ({CAPTURE_SHORTCUT_LABEL}) · or paste anywhere
+        </button>
       </div>
+      <label className="flex items-center justify-center gap-2 mb-6 text-xs text-[var(--muted-foreground)]">
+        <input
+          type="checkbox"
+          checked={semanticDedup}
+          onChange={(e) => setSemanticDedup(e.target.checked)}
+          className="accent-[var(--primary)]"
+        />
+        Semantic duplicate check (embeddings)
+      </label>
+      <label className="flex items-center justify-center gap-2 -mt-4 mb-6 text-xs text-[var(--muted-foreground)]">
+        <input
+          type="checkbox"
+          checked={reuseCachedAnswers}
+          onChange={(e) => setReuseCachedAnswers(e.target.checked)}
+          className="accent-[var(--primary)]"
+        />
+        Reuse cached AI answers for lines sorted before
+      </label>
+      {sortPrompts.length > 1 && (
+        <div className="flex items-center justify-center gap-2 -mt-4 mb-6 text-xs text-[var(--muted-foreground)]">
+          <label className="flex items-center gap-1">
+            Sort prompt
+            <select
+              value={sortPromptVersion}
+              onChange={(e) => setSortPromptVersion(e.target.value)}
+              className="bg-[var(--card)] border border-[var(--border)] rounded px-1 py-0.5"
+            >
+              <option value="">Default</option>
+              {sortPrompts.map(p => (
+                <option key={p.version} value={p.version} title={p.description}>{p.version}</option>
+              ))}
+            </select>
+          </label>
+          <button onClick={() => setShowPromptCompare(true)} className="hover:underline">
+            Compare versions
+          </button>
+        </div>
+      )}
+      {showPromptCompare && (
+        <PromptComparePanel
+          prompts={sortPrompts}
+          initialLines={folders.flatMap(f => f.tasks.map(t => t.text)).slice(0, PROMPT_COMPARE_SAMPLE)}
+          context={sortContext()}
+          onUseVersion={version => {
+            setSortPromptVersion(version);
+            setShowPromptCompare(false);
+          }}
+          onClose={() => setShowPromptCompare(false)}
+        />
+      )}
+
+      {capture && (
+        <QuickCapture initialText={capture.text} onSubmit={submitCapture} onClose={() => setCapture(null)} />
+      )}
+      {importError && (
+        <p className="mb-4 text-xs text-center text-red-400">Import failed: {importError}</p>
+      )}
+      {importReview && (
+        <ImportReview
+          fileName={importReview.fileName}
+          preview={importReview.preview}
+          currentFolders={folders}
+          aliases={liveAliases(aliases, folders)}
+          onConfirm={confirmImport}
+          onCancel={() => setImportReview(null)}
+        />
+      )}
+      {workspaceReview && (
+        <WorkspaceImportReview
+          fileName={workspaceReview.fileName}
+          workspace={workspaceReview.workspace}
+          currentFolders={folders}
+          onConfirm={confirmWorkspaceImport}
+          onCancel={() => setWorkspaceReview(null)}
+        />
+      )}
+
+      {extractionReview && (
+        <ExtractionReview
+          extraction={extractionReview}
+          onConfirm={confirmExtraction}
+          onCancel={() => setExtractionReview(null)}
+        />
+      )}
+      {dedupReview && (
+        <DedupReview
+          report={dedupReview.report}
+          onConfirm={confirmDedup}
+          onCancel={() => setDedupReview(null)}
+        />
+      )}
 
       {/* Progress */}
       {isProcessing && (
@@ -387,7 +905,7 @@ export default function Home() {
           <div className="progress-bar">
             <div
               className="progress-bar-fill"
-              style={{ width: `${(progress.current / progress.total) * 100}%` }}
+              style={{ width: `${progress.total > 0 ? (progress.current / progress.total) * 100 : 0}%` }}
             />
           </div>
           <p className="text-xs text-center mt-1 text-[var(--muted-foreground)]">
@@ -396,6 +914,48 @@ export default function Home() {
         </div>
       )}
 
+      {!isProcessing && sortNotice && (
+        <p className="mb-4 text-xs text-center text-[var(--muted-foreground)]">{sortNotice}</p>
+      )}
+      {!isProcessing && comparison && (
+        <ComparisonPanel comparison={comparison} onDismiss={() => setComparison(null)} />
+      )}
+
+      {/* Interrupted or partially failed sort */}
+      {!isProcessing && sortError && unfinished.length === 0 && (
+        <p className="mb-4 text-xs text-center text-red-400">Sort failed: {sortError}</p>
+      )}
+      {!isProcessing && sortJob && unfinished.length > 0 && (
+        <div className="mb-4 bg-[var(--card)] border border-[var(--border)] rounded-lg p-3 text-sm">
+          <p className="font-medium">
+            Sort stopped: {sortJob.batches.length - unfinished.length}/{sortJob.batches.length} batches done
+            {failed.length > 0 && `, ${failed.length} failed`}
+          </p>
+          {failed.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-[var(--muted-foreground)]">
+              {failed.map(b => (
+                <li key={b.index}>
+                  <span className="text-red-400">Batch {b.index + 1}</span> ({b.lines.length} tasks, from &quot;{b.lines[0]}&quot;): {b.error}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2 mt-3">
+            <button onClick={() => resumeSortJob(false)} className="btn-primary text-xs px-3 py-1">
+              ▶ Resume
+            </button>
+            {failed.length > 0 && failed.length < unfinished.length && (
+              <button onClick={() => resumeSortJob(true)} className="btn-secondary text-xs px-3 py-1">
+                ↻ Retry failed only
+              </button>
+            )}
+            <button onClick={() => setSortJob(null)} className="btn-secondary text-xs px-3 py-1">
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Tier Rows */}
       {folders.length > 0 && (
         <div className="space-y-2">
@@ -422,6 +982,14 @@ export default function Home() {
                       onToggleExpand={toggleExpand}
                       onToggleTask={toggleTask}
                       onAddSubtask={addSubtask}
+                      onMoveTask={moveTask}
+                      aliases={aliasesFor(aliases, folder.name)}
+                      mergeTargets={folders.filter(f => f.id !== folder.id)}
+                      onRename={renameFolderTo}
+                      onMerge={mergeFolderInto}
+                      onSplit={splitFolderTasks}
+                      onAddAlias={addFolderAlias}
+                      onRemoveAlias={alias => setAliases(prev => removeAlias(prev, alias))}
                     />
                   ))}
                   {tierFolders.length === 0 && (
@@ -454,6 +1022,14 @@ export default function Home() {
                   onToggleExpand={toggleExpand}
                   onToggleTask={toggleTask}
                   onAddSubtask={addSubtask}
+                  onMoveTask={moveTask}
+                  aliases={aliasesFor(aliases, folder.name)}
+                  mergeTargets={folders.filter(f => f.id !== folder.id)}
+                  onRename={renameFolderTo}
+                  onMerge={mergeFolderInto}
+                  onSplit={splitFolderTasks}
+                  onAddAlias={addFolderAlias}
+                  onRemoveAlias={alias => setAliases(prev => removeAlias(prev, alias))}
                 />
               ))}
               {unsortedFolders.length === 0 && (
@@ -477,6 +1053,54 @@ export default function Home() {
           </button>
         </div>
       )}
+
+      <div className="mt-3 text-center">
+        <button onClick={openTimeline} className="text-xs text-[var(--muted-foreground)] hover:underline">
+          🕓 Restore points
+        </button>
+        <span className="text-xs text-[var(--muted-foreground)] mx-2">·</span>
+        <button onClick={downloadWorkspace} className="text-xs text-[var(--muted-foreground)] hover:underline">
+          💾 Back up workspace
+        </button>
+        <span className="text-xs text-[var(--muted-foreground)] mx-2">·</span>
+        <button onClick={() => setShowUsage(true)} className="text-xs text-[var(--muted-foreground)] hover:underline">
+          📊 AI usage
+        </button>
+      </div>
+
+      {showUsage && <UsagePanel onClose={() => setShowUsage(false)} />}
+
+      {snapshots && (
+        <SnapshotTimeline
+          snapshots={snapshots}
+          currentFolders={folders}
+          onRestore={restoreSnapshot}
+          onDelete={async id => setSnapshots(await deleteSnapshot(id))}
+          onClose={() => setSnapshots(null)}
+        />
+      )}
+
+      {/* Undo/redo stays visible after Clear All so it can be taken back */}
+      {(undoLabel || redoLabel) && (
+        <div className="flex gap-2 mt-3 justify-center text-xs">
+          <button
+            onClick={undo}
+            disabled={!undoLabel || isProcessing}
+            title="Ctrl+Z"
+            className="btn-secondary px-3 py-1 disabled:opacity-50"
+          >
+            ↩️ Undo{undoLabel && `: ${undoLabel}`}
+          </button>
+          <button
+            onClick={redo}
+            disabled={!redoLabel || isProcessing}
+            title="Ctrl+Shift+Z"
+            className="btn-secondary px-3 py-1 disabled:opacity-50"
+          >
+            ↪️ Redo{redoLabel && `: ${redoLabel}`}
+          </button>
+        </div>
+      )}
     </main>
   );
 }
\ No newline at end of file
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { Folder } from "@/lib/types";
+import { DEFAULT_TIME_BLOCK_OPTIONS, planTimeBlocks, toIcs } from "@/lib/calendar";
+
+interface CalendarExportProps {
+  // The folders that can be scheduled (A-tier)
+  folders: Folder[];
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 6;
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function toTimeInput(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+function fromTimeInput(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+// The next quarter hour, as a datetime-local value
+function defaultStart(): string {
+  const date = new Date();
+  date.setMinutes(Math.ceil((date.getMinutes() + 1) / 15) * 15, 0, 0);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function CalendarExport({ folders, onClose }: CalendarExportProps) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(folders.map(f => f.id)));
+  const [start, setStart] = useState(defaultStart);
+  const [workdayStart, setWorkdayStart] = useState(toTimeInput(DEFAULT_TIME_BLOCK_OPTIONS.workdayStart));
+  const [workdayEnd, setWorkdayEnd] = useState(toTimeInput(DEFAULT_TIME_BLOCK_OPTIONS.workdayEnd));
+  const [workdays, setWorkdays] = useState(DEFAULT_TIME_BLOCK_OPTIONS.workdays);
+  const [blockMinutes, setBlockMinutes] = useState(DEFAULT_TIME_BLOCK_OPTIONS.blockMinutes);
+  const [breakMinutes, setBreakMinutes] = useState(DEFAULT_TIME_BLOCK_OPTIONS.breakMinutes);
+
+  const toggleFolder = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleDay = (day: number) => {
+    setWorkdays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort());
+  };
+
+  const startDate = new Date(start);
+  const hours = { start: fromTimeInput(workdayStart), end: fromTimeInput(workdayEnd) };
+  const problem = isNaN(startDate.getTime()) ? "Pick a start time"
+    : workdays.length === 0 ? "Pick at least one working day"
+    : hours.end <= hours.start ? "The workday has to end after it starts"
+    : null;
+
+  const blocks = problem ? [] : planTimeBlocks(folders.filter(f => selected.has(f.id)), {
+    start: startDate,
+    workdayStart: hours.start,
+    workdayEnd: hours.end,
+    workdays,
+    blockMinutes: Math.max(1, blockMinutes),
+    breakMinutes: Math.max(0, breakMinutes),
+  });
+  const stepCount = blocks.reduce((sum, b) => sum + b.steps.length, 0);
+
+  const download = () => {
+    const blob = new Blob([toIcs(blocks)], { type: "text/calendar" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `flowlist-plan-${start.split("T")[0]}.ics`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-[var(--background)] border border-[var(--border)] rounded-xl p-4 w-full max-w-2xl max-h-[80vh] flex flex-col text-sm">
+        <h2 className="font-semibold mb-1">Export time blocks</h2>
+        <p className="text-xs text-[var(--muted-foreground)] mb-3">
+          Schedules the open steps of Priority folders into an .ics file you can import into any calendar.
+        </p>
+
+        {folders.length === 0 ? (
+          <p className="text-xs text-[var(--muted-foreground)] flex-1">Rate a folder A (Priority) to schedule it.</p>
+        ) : (
+          <div className="flex-1 overflow-y-auto space-y-3">
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+              {folders.map(f => (
+                <label key={f.id} className="flex items-center gap-1 text-xs">
+                  <input type="checkbox" checked={selected.has(f.id)} onChange={() => toggleFolder(f.id)} className="accent-[var(--primary)]" />
+                  {f.name}
+                </label>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              <label className="flex flex-col gap-1">
+                Start
+                <input type="datetime-local" value={start} onChange={e => setStart(e.target.value)} className="bg-[var(--card)] border border-[var(--border)] rounded px-2 py-1" />
+              </label>
+              <div className="flex gap-2">
+                <label className="flex flex-col gap-1 flex-1">
+                  Workday from
+                  <input type="time" value={workdayStart} onChange={e => setWorkdayStart(e.target.value)} className="bg-[var(--card)] border border-[var(--border)] rounded px-2 py-1" />
+                </label>
+                <label className="flex flex-col gap-1 flex-1">
+                  to
+                  <input type="time" value={workdayEnd} onChange={e => setWorkdayEnd(e.target.value)} className="bg-[var(--card)] border border-[var(--border)] rounded px-2 py-1" />
+                </label>
+              </div>
+              <label className="flex flex-col gap-1">
+                Block length (minutes)
+                <input type="number" min={1} value={blockMinutes} onChange={e => setBlockMinutes(Number(e.target.value))} className="bg-[var(--card)] border border-[var(--border)] rounded px-2 py-1" />
+              </label>
+              <label className="flex flex-col gap-1">
+                Break between blocks (minutes)
+                <input type="number" min={0} value={breakMinutes} onChange={e => setBreakMinutes(Number(e.target.value))} className="bg-[var(--card)] border border-[var(--border)] rounded px-2 py-1" />
+              </label>
+            </div>
+
+            <div className="flex gap-1">
+              {DAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  onClick={() => toggleDay(day)}
+                  className={`text-xs px-2 py-0.5 rounded border ${
+                    workdays.includes(day)
+                      ? "bg-[var(--primary)] text-[var(--background)] border-[var(--primary)]"
+                      : "border-[var(--border)] text-[var(--muted-foreground)]"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {problem ? (
+              <p className="text-xs text-red-400">{problem}</p>
+            ) : blocks.length === 0 ? (
+              <p className="text-xs text-[var(--muted-foreground)]">No open steps in the selected folders.</p>
+            ) : (
+              <div className="text-xs">
+                <p className="text-[var(--muted-foreground)]">
+                  {blocks.length} blocks · {stepCount} steps · done by {blocks[blocks.length - 1].end.toLocaleString()}
+                </p>
+                <ul className="mt-1 text-[var(--muted-foreground)]">
+                  {blocks.slice(0, PREVIEW_LIMIT).map(b => (
+                    <li key={b.start.getTime()} className="truncate">
+                      {b.start.toLocaleString([], { weekday: "short", hour: "2-digit", minute: "2-digit" })}
+                      {" – "}
+                      {b.end.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                      {" · "}{b.goal} ({b.steps.length} steps)
+                    </li>
+                  ))}
+                  {blocks.length > PREVIEW_LIMIT && <li>…and {blocks.length - PREVIEW_LIMIT} more</li>}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2 mt-4 justify-end">
+          <button onClick={onClose} className="btn-secondary text-sm px-4 py-2">
+            Close
+          </button>
+          <button onClick={download} disabled={blocks.length === 0} className="btn-primary text-sm px-4 py-2 disabled:opacity-50">
+            📅 Download .ics
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
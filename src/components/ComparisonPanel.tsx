@@ -0,0 +1,53 @@
+import { useState } from "react";
+import { ClassifierComparison } from "@/lib/local-classifier";
+
+interface ComparisonPanelProps {
+  comparison: ClassifierComparison;
+  onDismiss: () => void;
+}
+
+export function ComparisonPanel({ comparison, onDismiss }: ComparisonPanelProps) {
+  const [showDetails, setShowDetails] = useState(false);
+  const percent = comparison.total > 0 ? Math.round((comparison.agreed / comparison.total) * 100) : 0;
+
+  return (
+    <div className="mb-4 bg-[var(--card)] border border-[var(--border)] rounded-lg p-3 text-xs">
+      <div className="flex items-center gap-2">
+        <span className="flex-1">
+          Local classifier agreed with the AI on {comparison.agreed}/{comparison.total} tasks ({percent}%)
+        </span>
+        {comparison.disagreements.length > 0 && (
+          <button onClick={() => setShowDetails(!showDetails)} className="text-[var(--primary)] hover:underline">
+            {showDetails ? "Hide" : "Show"} differences
+          </button>
+        )}
+        <button onClick={onDismiss} className="text-[var(--muted-foreground)] hover:underline">
+          Dismiss
+        </button>
+      </div>
+
+      {showDetails && (
+        <table className="w-full mt-2 text-left">
+          <thead className="text-[var(--muted-foreground)]">
+            <tr>
+              <th className="font-normal py-1">Task</th>
+              <th className="font-normal py-1">AI</th>
+              <th className="font-normal py-1">Local</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.disagreements.map((d, i) => (
+              <tr key={`${i}-${d.text}`} className="border-t border-[var(--border)]">
+                <td className="py-1 pr-2">{d.text}</td>
+                <td className="py-1 pr-2">{d.llmBucket}</td>
+                <td className="py-1">
+                  {d.localBucket} <span className="text-[var(--muted-foreground)]">({d.source})</span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
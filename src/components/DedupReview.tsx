@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { DuplicateReport } from "@/lib/dedup";
+
+export type MergeDecision = "skip" | "keep" | "replace";
+
+interface DedupReviewProps {
+  report: DuplicateReport;
+  onConfirm: (decisions: MergeDecision[]) => void;
+  onCancel: () => void;
+}
+
+const DECISION_LABELS: Record<MergeDecision, string> = {
+  skip: "Skip",
+  keep: "Keep both",
+  replace: "Replace",
+};
+
+export function DedupReview({ report, onConfirm, onCancel }: DedupReviewProps) {
+  // One decision per near-duplicate; skipping is the safe default
+  const [decisions, setDecisions] = useState<MergeDecision[]>(() => report.near.map(() => "skip"));
+
+  const setDecision = (index: number, decision: MergeDecision) => {
+    setDecisions(prev => prev.map((d, i) => (i === index ? decision : d)));
+  };
+
+  const keptCount = report.unique.length + decisions.filter(d => d !== "skip").length;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-[var(--background)] border border-[var(--border)] rounded-xl p-4 w-full max-w-2xl max-h-[80vh] flex flex-col">
+        <h2 className="font-semibold mb-1">Possible duplicates</h2>
+        <p className="text-xs text-[var(--muted-foreground)] mb-3">
+          {report.near.length} similar · {report.exact.length} exact (skipped) · {report.unique.length} new
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {report.near.map((match, i) => (
+            <div key={`${i}-${match.line}`} className="border border-[var(--border)] rounded-lg p-2 text-sm">
+              <div className="font-medium">{match.line}</div>
+              <div className="text-xs text-[var(--muted-foreground)] mt-1">
+                ≈ &quot;{match.match.text}&quot; in {match.match.folderName}
+                {match.match.depth > 0 && ` (subtask, depth ${match.match.depth})`}
+                {" · "}
+                {Math.round(match.score * 100)}% {match.method}
+              </div>
+              <div className="flex gap-1 mt-2">
+                {(Object.keys(DECISION_LABELS) as MergeDecision[]).map(decision => (
+                  <button
+                    key={decision}
+                    onClick={() => setDecision(i, decision)}
+                    className={`text-xs px-2 py-0.5 rounded border ${
+                      decisions[i] === decision
+                        ? "bg-[var(--primary)] text-[var(--background)] border-[var(--primary)]"
+                        : "border-[var(--border)] text-[var(--muted-foreground)]"
+                    }`}
+                  >
+                    {DECISION_LABELS[decision]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 mt-4 justify-end">
+          <button onClick={onCancel} className="btn-secondary text-sm px-4 py-2">
+            Cancel import
+          </button>
+          <button onClick={() => onConfirm(decisions)} className="btn-primary text-sm px-4 py-2">
+            Sort {keptCount} tasks
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { GroupedLine } from "@/lib/capture";
+import { DISCARD_REASON_LABELS, Extraction } from "@/lib/extract";
+
+interface ExtractionReviewProps {
+  extraction: Extraction;
+  onConfirm: (lines: GroupedLine[]) => void;
+  onCancel: () => void;
+}
+
+export function ExtractionReview({ extraction, onConfirm, onCancel }: ExtractionReviewProps) {
+  const { items, discarded } = extraction;
+  // Found items start ticked, discarded lines unticked; either can be flipped
+  const [dropped, setDropped] = useState<Set<number>>(() => new Set());
+  const [restored, setRestored] = useState<Set<number>>(() => new Set());
+
+  const toggle = (set: Set<number>, index: number) => {
+    const next = new Set(set);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    return next;
+  };
+
+  // Restored lines go back to their place in the text, next to the rest of their group
+  const lines: GroupedLine[] = [
+    ...items.filter((_, i) => !dropped.has(i)),
+    ...discarded.filter((_, i) => restored.has(i)),
+  ]
+    .sort((a, b) => a.index - b.index)
+    .map(({ text, group }) => ({ text, group }));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-[var(--background)] border border-[var(--border)] rounded-xl p-4 w-full max-w-2xl max-h-[80vh] flex flex-col">
+        <h2 className="font-semibold mb-1">Action items</h2>
+        <p className="text-xs text-[var(--muted-foreground)] mb-3">
+          {items.length} found · {discarded.length} lines left out
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-3 text-sm">
+          <ul className="space-y-1">
+            {items.map((item, i) => (
+              <li key={`${i}-${item.text}`}>
+                <label className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    checked={!dropped.has(i)}
+                    onChange={() => setDropped(prev => toggle(prev, i))}
+                    className="mt-1 accent-[var(--primary)]"
+                  />
+                  <span>
+                    {item.text}
+                    {item.split && (
+                      <span className="block text-xs text-[var(--muted-foreground)] truncate">split from &quot;{item.source}&quot;</span>
+                    )}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+
+          {discarded.length > 0 && (
+            <div>
+              <div className="text-xs font-medium text-[var(--muted-foreground)] mb-1">Left out</div>
+              <ul className="space-y-1">
+                {discarded.map((line, i) => (
+                  <li key={`${i}-${line.text}`}>
+                    <label className="flex items-start gap-2 text-[var(--muted-foreground)]">
+                      <input
+                        type="checkbox"
+                        checked={restored.has(i)}
+                        onChange={() => setRestored(prev => toggle(prev, i))}
+                        className="mt-1 accent-[var(--primary)]"
+                      />
+                      <span>
+                        {line.text}
+                        <span className="ml-2 text-xs text-yellow-500">{DISCARD_REASON_LABELS[line.reason]}</span>
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2 mt-4 justify-end">
+          <button onClick={onCancel} className="btn-secondary text-sm px-4 py-2">
+            Cancel import
+          </button>
+          <button onClick={() => onConfirm(lines)} disabled={lines.length === 0} className="btn-primary text-sm px-4 py-2">
+            Continue with {lines.length} tasks
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
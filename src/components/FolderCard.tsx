@@ -1,5 +1,6 @@
+import { useState } from "react";
 import { Folder } from "@/lib/types";
-import { TaskItem } from "./TaskItem";
+import { TaskItem, TASK_DRAG_TYPE } from "./TaskItem";
 
 interface FolderCardProps {
   folder: Folder;
@@ -9,6 +10,14 @@ interface FolderCardProps {
   onToggleExpand: (folderId: string) => void;
   onToggleTask: (folderId: string, taskId: string) => void;
   onAddSubtask: (folderId: string, parentTaskId: string, text: string) => void;
+  onMoveTask: (fromFolderId: string, taskId: string, toFolderId: string) => void;
+  aliases: string[];
+  mergeTargets: Folder[];
+  onRename: (folderId: string, name: string) => void;
+  onMerge: (folderId: string, targetId: string) => void;
+  onSplit: (folderId: string, taskIds: string[], name: string) => void;
+  onAddAlias: (folderId: string, alias: string) => void;
+  onRemoveAlias: (alias: string) => void;
 }
 
 export function FolderCard({
@@ -19,15 +28,63 @@ export function FolderCard({
   onToggleExpand,
   onToggleTask,
   onAddSubtask,
+  onMoveTask,
+  aliases,
+  mergeTargets,
+  onRename,
+  onMerge,
+  onSplit,
+  onAddAlias,
+  onRemoveAlias,
 }: FolderCardProps) {
+  const [isTaskOver, setIsTaskOver] = useState(false);
+  // Top-level task ids picked for a split; null when not splitting
+  const [splitSelection, setSplitSelection] = useState<Set<string> | null>(null);
+
+  const toggleSplitTask = (taskId: string) => {
+    setSplitSelection(prev => {
+      if (!prev) return prev;
+      const next = new Set(prev);
+      if (next.has(taskId)) next.delete(taskId);
+      else next.add(taskId);
+      return next;
+    });
+  };
+
+  const confirmSplit = () => {
+    if (!splitSelection || splitSelection.size === 0) return;
+    const name = prompt(`Move ${splitSelection.size} task(s) to folder:`);
+    if (!name?.trim()) return;
+    onSplit(folder.id, Array.from(splitSelection), name);
+    setSplitSelection(null);
+  };
+
+  const isTaskDrag = (e: React.DragEvent) => e.dataTransfer.types.includes(TASK_DRAG_TYPE);
+
   return (
     <div
       draggable
       onDragStart={(e) => onDragStart(e, folder.id)}
       onDragEnd={onDragEnd}
+      onDragOver={(e) => {
+        if (!isTaskDrag(e)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = "move";
+        setIsTaskOver(true);
+      }}
+      onDragLeave={() => setIsTaskOver(false)}
+      onDrop={(e) => {
+        if (!isTaskDrag(e)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setIsTaskOver(false);
+        const { folderId, taskId } = JSON.parse(e.dataTransfer.getData(TASK_DRAG_TYPE));
+        onMoveTask(folderId, taskId, folder.id);
+      }}
       className={`bg-[var(--card)] border border-[var(--border)] rounded-lg p-2 cursor-grab active:cursor-grabbing transition-all hover:border-[var(--primary)] ${
         isDragged ? "opacity-50 scale-95" : ""
-      }`}
+      } ${isTaskOver ? "border-[var(--primary)] ring-2 ring-[var(--primary)]" : ""}`}
     >
       <div
         className="flex items-center gap-2 cursor-pointer"
@@ -40,14 +97,88 @@ export function FolderCard({
 
       {folder.expanded && (
         <div className="mt-2 pt-2 border-t border-[var(--border)]">
+          <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+            <button
+              onClick={() => {
+                const name = prompt("Rename folder:", folder.name);
+                if (name) onRename(folder.id, name);
+              }}
+              className="text-[var(--primary)] hover:underline"
+            >
+              Rename
+            </button>
+            {splitSelection ? (
+              <>
+                <button onClick={confirmSplit} disabled={splitSelection.size === 0} className="text-[var(--primary)] hover:underline disabled:opacity-50">
+                  Split {splitSelection.size} off
+                </button>
+                <button onClick={() => setSplitSelection(null)} className="text-[var(--muted-foreground)] hover:underline">
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <button onClick={() => setSplitSelection(new Set())} className="text-[var(--primary)] hover:underline">
+                Split
+              </button>
+            )}
+            {mergeTargets.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => {
+                  const target = mergeTargets.find(f => f.id === e.target.value);
+                  if (target && confirm(`Merge "${folder.name}" into "${target.name}"?`)) onMerge(folder.id, target.id);
+                }}
+                className="bg-transparent border border-[var(--border)] rounded px-1 py-0.5"
+              >
+                <option value="">Merge into…</option>
+                {mergeTargets.map(f => (
+                  <option key={f.id} value={f.id}>{f.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-1 mb-2 text-xs text-[var(--muted-foreground)]">
+            <span>Also files:</span>
+            {aliases.map(alias => (
+              <span key={alias} className="border border-[var(--border)] rounded px-1">
+                {alias}
+                <button onClick={() => onRemoveAlias(alias)} className="ml-1 hover:text-[var(--foreground)]" title="Remove alias">
+                  ×
+                </button>
+              </span>
+            ))}
+            <button
+              onClick={() => {
+                const alias = prompt(`Sort results named this will go to "${folder.name}":`);
+                if (alias?.trim()) onAddAlias(folder.id, alias);
+              }}
+              className="text-[var(--primary)] hover:underline"
+            >
+              + alias
+            </button>
+          </div>
+
           {folder.tasks.map((task) => (
-            <TaskItem
-              key={task.id}
-              task={task}
-              folderId={folder.id}
-              onToggle={onToggleTask}
-              onAddSubtask={onAddSubtask}
-            />
+            <div key={task.id} className={splitSelection ? "flex items-start gap-2" : ""}>
+              {splitSelection && (
+                <input
+                  type="checkbox"
+                  checked={splitSelection.has(task.id)}
+                  onChange={() => toggleSplitTask(task.id)}
+                  className="mt-2"
+                  title="Select for split"
+                />
+              )}
+              <div className="flex-1 min-w-0">
+                <TaskItem
+                  task={task}
+                  folderId={folder.id}
+                  onToggle={onToggleTask}
+                  onAddSubtask={onAddSubtask}
+                />
+              </div>
+            </div>
           ))}
         </div>
       )}
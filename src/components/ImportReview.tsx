@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { BucketAlias, Folder, Task } from "@/lib/types";
+import { IMPORT_FORMAT_LABELS, ImportPreview } from "@/lib/importers";
+import { countTasks } from "@/lib/snapshots";
+import { findFolderByName } from "@/lib/taxonomy";
+
+interface ImportReviewProps {
+  fileName: string;
+  preview: ImportPreview;
+  currentFolders: Folder[];
+  aliases: BucketAlias[];
+  onConfirm: (folders: Folder[]) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_LIMIT = 5;
+const PREVIEW_DEPTH = 3;
+
+function TaskTree({ tasks, depth = 0 }: { tasks: Task[]; depth?: number }) {
+  const shown = tasks.slice(0, PREVIEW_LIMIT);
+  return (
+    <ul className={depth > 0 ? "ml-4" : ""}>
+      {shown.map(t => (
+        <li key={t.id}>
+          <span className={t.completed ? "line-through opacity-60" : ""}>{t.text}</span>
+          {t.children.length > 0 && (depth + 1 < PREVIEW_DEPTH
+            ? <TaskTree tasks={t.children} depth={depth + 1} />
+            : <span className="opacity-60"> (+{t.children.length} subtasks)</span>)}
+        </li>
+      ))}
+      {tasks.length > PREVIEW_LIMIT && <li className="opacity-60">…and {tasks.length - PREVIEW_LIMIT} more</li>}
+    </ul>
+  );
+}
+
+export function ImportReview({ fileName, preview, currentFolders, aliases, onConfirm, onCancel }: ImportReviewProps) {
+  // Every list is imported unless unticked
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set());
+
+  const toggle = (id: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const selected = preview.folders.filter(f => !excluded.has(f.id));
+  const taskCount = countTasks(selected);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-[var(--background)] border border-[var(--border)] rounded-xl p-4 w-full max-w-2xl max-h-[80vh] flex flex-col">
+        <h2 className="font-semibold mb-1">Import from {IMPORT_FORMAT_LABELS[preview.format]}</h2>
+        <p className="text-xs text-[var(--muted-foreground)] mb-3">
+          {fileName} · {preview.folders.length} lists · {countTasks(preview.folders)} tasks
+        </p>
+        {preview.warnings.length > 0 && (
+          <ul className="text-xs text-yellow-500 mb-3">
+            {preview.warnings.map(w => <li key={w}>{w}</li>)}
+          </ul>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-2">
+          {preview.folders.map(folder => {
+            const existing = findFolderByName(currentFolders, aliases, folder.name);
+            return (
+              <div key={folder.id} className="border border-[var(--border)] rounded-lg p-2 text-sm">
+                <label className="flex items-center gap-2 font-medium">
+                  <input
+                    type="checkbox"
+                    checked={!excluded.has(folder.id)}
+                    onChange={() => toggle(folder.id)}
+                    className="accent-[var(--primary)]"
+                  />
+                  {folder.name}
+                  <span className="text-xs font-normal text-[var(--muted-foreground)]">
+                    {countTasks([folder])} tasks
+                    {existing ? ` · merges into ${existing.name}` : " · new folder"}
+                  </span>
+                </label>
+                {!excluded.has(folder.id) && (
+                  <div className="text-xs text-[var(--muted-foreground)] mt-1 ml-6">
+                    <TaskTree tasks={folder.tasks} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2 mt-4 justify-end">
+          <button onClick={onCancel} className="btn-secondary text-sm px-4 py-2">
+            Cancel import
+          </button>
+          <button onClick={() => onConfirm(selected)} disabled={selected.length === 0} className="btn-primary text-sm px-4 py-2">
+            Import {taskCount} tasks
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
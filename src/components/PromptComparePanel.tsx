@@ -0,0 +1,135 @@
+import { useState } from "react";
+import type { PromptInfo } from "@/lib/prompts";
+import { BucketAlias, PromptComparison, SortExample } from "@/lib/types";
+
+interface PromptComparePanelProps {
+  prompts: PromptInfo[];
+  initialLines: string[];
+  context: { existingBuckets: string[]; examples: SortExample[]; aliases: BucketAlias[]; fresh: boolean };
+  onUseVersion: (version: string) => void;
+  onClose: () => void;
+}
+
+export function PromptComparePanel({ prompts, initialLines, context, onUseVersion, onClose }: PromptComparePanelProps) {
+  const [text, setText] = useState(initialLines.join("\n"));
+  const [versions, setVersions] = useState<[string, string]>([prompts[0]?.version ?? "", prompts[1]?.version ?? ""]);
+  const [comparison, setComparison] = useState<PromptComparison | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lines = text.split("\n").filter(line => line.trim());
+
+  const run = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/sort/compare", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ lines, versions, ...context }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || `Comparison failed: ${response.status}`);
+      setComparison(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Comparison failed");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const selectVersion = (side: 0 | 1, version: string) => {
+    setVersions(prev => (side === 0 ? [version, prev[1]] : [prev[0], version]));
+    setComparison(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-[var(--background)] border border-[var(--border)] rounded-xl p-4 w-full max-w-3xl max-h-[80vh] flex flex-col">
+        <h2 className="font-semibold mb-1">Compare sort prompts</h2>
+        <p className="text-xs text-[var(--muted-foreground)] mb-3">
+          Sorts the same tasks with two prompt versions and lists the ones they file differently. Nothing is added to the board.
+        </p>
+
+        <div className="flex gap-2 mb-2 text-xs">
+          {([0, 1] as const).map(side => (
+            <select
+              key={side}
+              value={versions[side]}
+              onChange={e => selectVersion(side, e.target.value)}
+              className="flex-1 bg-[var(--card)] border border-[var(--border)] rounded px-1 py-1"
+            >
+              {prompts.map(p => (
+                <option key={p.version} value={p.version}>
+                  {p.version}{p.isDefault ? " (default)" : ""} · {p.description}
+                </option>
+              ))}
+            </select>
+          ))}
+        </div>
+
+        <textarea
+          value={text}
+          onChange={e => setText(e.target.value)}
+          rows={comparison ? 4 : 10}
+          placeholder="One task per line"
+          className="w-full bg-[var(--card)] border border-[var(--border)] rounded-lg p-2 text-xs font-mono resize-y"
+        />
+
+        {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+
+        {comparison && (
+          <div className="flex-1 overflow-y-auto mt-3 text-xs min-h-0">
+            <p className="mb-2">
+              Agreed on {comparison.agreed}/{comparison.total} tasks
+              {comparison.skipped > 0 && ` · ${comparison.skipped} lines past the first batch weren't sent`}
+              <span className="text-[var(--muted-foreground)]">
+                {comparison.usage.total.unpricedCalls > 0
+                  ? " · cost unknown for this model"
+                  : ` · $${comparison.usage.total.costUsd.toFixed(4)}`}
+              </span>
+            </p>
+            {comparison.differences.length > 0 && (
+              <table className="w-full text-left">
+                <thead className="text-[var(--muted-foreground)]">
+                  <tr>
+                    <th className="font-normal py-1">Task</th>
+                    <th className="font-normal py-1">{comparison.versions[0]}</th>
+                    <th className="font-normal py-1">{comparison.versions[1]}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparison.differences.map((d, i) => (
+                    <tr key={`${i}-${d.text}`} className="border-t border-[var(--border)]">
+                      <td className="py-1 pr-2">{d.text}</td>
+                      <td className="py-1 pr-2">{d.buckets[0] ?? <span className="text-[var(--muted-foreground)]">left out</span>}</td>
+                      <td className="py-1">{d.buckets[1] ?? <span className="text-[var(--muted-foreground)]">left out</span>}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2 mt-4 justify-end flex-wrap">
+          {comparison && comparison.versions.map(version => (
+            <button key={version} onClick={() => onUseVersion(version)} className="btn-secondary text-xs px-3 py-2">
+              Sort with {version}
+            </button>
+          ))}
+          <button onClick={onClose} className="btn-secondary text-sm px-4 py-2 ml-auto">
+            Close
+          </button>
+          <button
+            onClick={run}
+            disabled={isRunning || lines.length === 0 || versions[0] === versions[1]}
+            className="btn-primary text-sm px-4 py-2 disabled:opacity-50"
+          >
+            {isRunning ? "Comparing…" : "Compare"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { extractActionItems } from "@/lib/extract";
+
+interface QuickCaptureProps {
+  initialText?: string;
+  onSubmit: (text: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 5;
+
+export function QuickCapture({ initialText = "", onSubmit, onClose }: QuickCaptureProps) {
+  const [text, setText] = useState(initialText);
+  const { items, discarded } = extractActionItems(text);
+
+  const submit = () => {
+    if (items.length > 0 || discarded.length > 0) onSubmit(text);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      submit();
+    } else if (e.key === "Escape") {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-start justify-center p-4 pt-[15vh]" onClick={onClose}>
+      <div
+        className="bg-[var(--background)] border border-[var(--border)] rounded-xl p-4 w-full max-w-xl flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <h2 className="font-semibold mb-2">Quick capture</h2>
+        <textarea
+          autoFocus
+          value={text}
+          onChange={e => setText(e.target.value)}
+          onKeyDown={onKeyDown}
+          rows={8}
+          placeholder={"One task per line — bullets, numbered lists and pasted emails work too"}
+          className="w-full bg-[var(--card)] border border-[var(--border)] rounded-lg p-2 text-sm font-mono resize-y"
+        />
+
+        {(items.length > 0 || discarded.length > 0) && (
+          <div className="text-xs text-[var(--muted-foreground)] mt-2">
+            <p>
+              {items.length} tasks
+              {discarded.length > 0 && ` · ${discarded.length} lines left out (you can bring them back next)`}
+            </p>
+            <ul className="mt-1">
+              {items.slice(0, PREVIEW_LIMIT).map((item, i) => (
+                <li key={`${i}-${item.text}`} className="truncate">· {item.text}</li>
+              ))}
+              {items.length > PREVIEW_LIMIT && <li>…and {items.length - PREVIEW_LIMIT} more</li>}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-2 mt-4 justify-end items-center">
+          <span className="text-xs text-[var(--muted-foreground)] mr-auto">Ctrl/Cmd+Enter to sort · Esc to close</span>
+          <button onClick={onClose} className="btn-secondary text-sm px-4 py-2">
+            Cancel
+          </button>
+          <button onClick={submit} disabled={items.length === 0 && discarded.length === 0} className="btn-primary text-sm px-4 py-2 disabled:opacity-50">
+            Sort {items.length} tasks
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Folder } from "@/lib/types";
+import { diffSnapshots, Snapshot, SnapshotTask } from "@/lib/snapshots";
+
+interface SnapshotTimelineProps {
+  snapshots: Snapshot[];
+  currentFolders: Folder[];
+  onRestore: (snapshot: Snapshot) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 8;
+
+function TaskList({ title, tasks, className }: { title: string; tasks: SnapshotTask[]; className: string }) {
+  if (tasks.length === 0) return null;
+  return (
+    <div className="mt-2">
+      <div className={`text-xs font-medium ${className}`}>{title} ({tasks.length})</div>
+      <ul className="text-xs text-[var(--muted-foreground)]">
+        {tasks.slice(0, PREVIEW_LIMIT).map((t, i) => (
+          <li key={`${i}-${t.text}`} className="truncate">
+            {t.text} <span className="opacity-60">· {t.folder}</span>
+          </li>
+        ))}
+        {tasks.length > PREVIEW_LIMIT && <li>…and {tasks.length - PREVIEW_LIMIT} more</li>}
+      </ul>
+    </div>
+  );
+}
+
+export function SnapshotTimeline({ snapshots, currentFolders, onRestore, onDelete, onClose }: SnapshotTimelineProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = snapshots.find(s => s.id === selectedId) ?? snapshots[0] ?? null;
+
+  // What restoring would do to the board as it is now
+  const diff = selected ? diffSnapshots(currentFolders, selected.folders) : null;
+  const unchanged = diff && !diff.added.length && !diff.removed.length && !diff.completed.length && !diff.reopened.length;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-[var(--background)] border border-[var(--border)] rounded-xl p-4 w-full max-w-3xl max-h-[80vh] flex flex-col">
+        <h2 className="font-semibold mb-1">Restore points</h2>
+        <p className="text-xs text-[var(--muted-foreground)] mb-3">
+          Taken automatically before imports, AI sorts, clears and restores. Kept on this device only.
+        </p>
+
+        {snapshots.length === 0 ? (
+          <p className="text-sm text-[var(--muted-foreground)] flex-1">No snapshots yet.</p>
+        ) : (
+          <div className="flex-1 overflow-hidden flex gap-3 min-h-0">
+            <ul className="w-1/3 overflow-y-auto space-y-1">
+              {snapshots.map(s => (
+                <li key={s.id}>
+                  <button
+                    onClick={() => setSelectedId(s.id)}
+                    className={`w-full text-left rounded-lg p-2 text-xs border ${
+                      s.id === selected?.id ? "border-[var(--primary)]" : "border-[var(--border)]"
+                    }`}
+                  >
+                    <div className="font-medium">{new Date(s.at).toLocaleString()}</div>
+                    <div className="text-[var(--muted-foreground)]">
+                      {s.reason} · {s.folders.length} folders · {s.taskCount} tasks
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex-1 overflow-y-auto text-sm">
+              {selected && diff && (
+                <>
+                  <p className="text-xs text-[var(--muted-foreground)]">Restoring this point would change the board:</p>
+                  {unchanged && <p className="text-xs mt-2">Nothing — the board matches this snapshot.</p>}
+                  <TaskList title="Brings back" tasks={diff.added} className="text-green-500" />
+                  <TaskList title="Removes" tasks={diff.removed} className="text-red-400" />
+                  <TaskList title="Marks done" tasks={diff.completed} className="text-blue-400" />
+                  <TaskList title="Reopens" tasks={diff.reopened} className="text-yellow-500" />
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2 mt-4 justify-end">
+          {selected && (
+            <button onClick={() => onDelete(selected.id)} className="btn-secondary text-sm px-4 py-2 text-red-400 mr-auto">
+              Delete
+            </button>
+          )}
+          <button onClick={onClose} className="btn-secondary text-sm px-4 py-2">
+            Close
+          </button>
+          {selected && !unchanged && (
+            <button onClick={() => onRestore(selected)} className="btn-primary text-sm px-4 py-2">
+              Restore
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+import { onPersistenceIssue, PersistenceIssue } from "@/lib/persistence";
+
+const ISSUE_HINTS: Record<PersistenceIssue["kind"], string> = {
+  quota: "Download a ZIP, then clear completed tasks to free space.",
+  corrupt: "What could be read was kept; the original was backed up.",
+  "newer-version": "Open the app in its latest version to keep your data; a backup was saved.",
+  unavailable: "Browser storage is blocked (private mode?). Changes won't survive a reload.",
+  "write-failed": "Your latest changes may not survive a reload.",
+};
+
+// Surfaces storage problems reported by the persistence layer instead of failing silently
+export function StorageIssueBanner() {
+  const [issue, setIssue] = useState<PersistenceIssue | null>(null);
+
+  useEffect(() => onPersistenceIssue(setIssue), []);
+
+  if (!issue) return null;
+
+  return (
+    <div className="mb-4 bg-[var(--card)] border border-red-400 rounded-lg p-3 text-sm flex items-start gap-2">
+      <div className="flex-1">
+        <p className="text-red-400">{issue.message}</p>
+        <p className="text-xs text-[var(--muted-foreground)] mt-1">
+          {ISSUE_HINTS[issue.kind]}
+          {issue.backupKey && ` Backup key: ${issue.backupKey}`}
+        </p>
+      </div>
+      <button onClick={() => setIssue(null)} className="text-xs text-[var(--muted-foreground)] hover:underline">
+        Dismiss
+      </button>
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
 import { Task } from "@/lib/types";
 
+// dataTransfer type for task drags, so drop targets can tell them apart from folder drags
+export const TASK_DRAG_TYPE = "application/x-antlist-task";
+
 interface TaskItemProps {
   task: Task;
   folderId: string;
@@ -11,7 +14,16 @@ interface TaskItemProps {
 export function TaskItem({ task, folderId, depth = 0, onToggle, onAddSubtask }: TaskItemProps) {
   return (
     <div className={`${depth > 0 ? "ml-4 border-l border-[var(--border)] pl-2" : ""}`}>
-      <div className="flex items-center gap-2 py-1 group">
+      <div
+        draggable
+        onDragStart={(e) => {
+          // Keep the enclosing FolderCard from starting a folder drag
+          e.stopPropagation();
+          e.dataTransfer.setData(TASK_DRAG_TYPE, JSON.stringify({ folderId, taskId: task.id }));
+          e.dataTransfer.effectAllowed = "move";
+        }}
+        className="flex items-center gap-2 py-1 group cursor-grab"
+      >
         <input
           type="checkbox"
           checked={task.completed}
@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { UsageSummary, UsageTotals } from "@/lib/types";
+
+interface UsagePanelProps {
+  onClose: () => void;
+}
+
+const DAYS_SHOWN = 14;
+
+function formatCost(usd: number): string {
+  return usd > 0 && usd < 0.01 ? "<$0.01" : `$${usd.toFixed(2)}`;
+}
+
+// Calls to models without a list price have no cost to add, so they're shown apart instead of as $0
+function formatSpend(totals: UsageTotals): string {
+  if (totals.unpricedCalls === 0) return formatCost(totals.costUsd);
+  if (totals.unpricedCalls === totals.calls) return "not priced";
+  return `${formatCost(totals.costUsd)} + ${totals.unpricedCalls} unpriced`;
+}
+
+function formatTokens(totals: UsageTotals): string {
+  return `${totals.inputTokens.toLocaleString()} in · ${totals.outputTokens.toLocaleString()} out`;
+}
+
+function averageLatency(totals: UsageTotals): string {
+  return totals.calls > 0 ? `${(totals.latencyMs / totals.calls / 1000).toFixed(1)}s avg` : "";
+}
+
+export function UsagePanel({ onClose }: UsagePanelProps) {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [budgetInput, setBudgetInput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = (next: UsageSummary) => {
+    setSummary(next);
+    setBudgetInput(next.budgetUsd === null ? "" : String(next.budgetUsd));
+  };
+
+  useEffect(() => {
+    fetch("/api/usage")
+      .then(response => {
+        if (!response.ok) throw new Error(`Loading usage failed: ${response.status}`);
+        return response.json();
+      })
+      .then(apply)
+      .catch((err: Error) => setError(err.message));
+  }, []);
+
+  const saveBudget = async () => {
+    const value = budgetInput.trim() === "" ? null : Number(budgetInput);
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+      setError("Enter a budget in dollars, or leave it empty for no budget");
+      return;
+    }
+    setError(null);
+    try {
+      const response = await fetch("/api/usage", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ budgetUsd: value }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Saving budget failed: ${response.status}`);
+      apply(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Saving budget failed");
+    }
+  };
+
+  const overBudget = summary?.budgetUsd != null && summary.monthCostUsd >= summary.budgetUsd;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-[var(--background)] border border-[var(--border)] rounded-xl p-4 w-full max-w-2xl max-h-[80vh] flex flex-col">
+        <h2 className="font-semibold mb-1">AI usage</h2>
+        <p className="text-xs text-[var(--muted-foreground)] mb-3">
+          Costs are estimates from list prices; answers served from the cache cost nothing. Calls to models
+          without a known price are listed as unpriced and don&apos;t count toward the budget.
+        </p>
+
+        {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+
+        {!summary ? (
+          <p className="text-sm text-[var(--muted-foreground)] flex-1">{error ? "" : "Loading…"}</p>
+        ) : (
+          <div className="flex-1 overflow-y-auto space-y-4 text-sm">
+            <div className="flex items-end gap-3 flex-wrap">
+              <div>
+                <div className="text-xs text-[var(--muted-foreground)]">This month ({summary.month})</div>
+                <div className={`text-lg font-semibold ${overBudget ? "text-red-400" : ""}`}>
+                  {formatCost(summary.monthCostUsd)}
+                  {summary.budgetUsd !== null && (
+                    <span className="text-xs font-normal text-[var(--muted-foreground)]"> of ${summary.budgetUsd.toFixed(2)}</span>
+                  )}
+                </div>
+                {summary.monthUnpricedCalls > 0 && (
+                  <div className="text-xs text-[var(--muted-foreground)]">
+                    + {summary.monthUnpricedCalls} calls to models without a known price
+                  </div>
+                )}
+              </div>
+              <label className="flex items-center gap-1 text-xs ml-auto">
+                Monthly budget $
+                <input
+                  type="number"
+                  min={0}
+                  step="0.5"
+                  value={budgetInput}
+                  onChange={e => setBudgetInput(e.target.value)}
+                  placeholder="none"
+                  className="w-20 bg-[var(--card)] border border-[var(--border)] rounded px-1 py-0.5"
+                />
+              </label>
+              <button onClick={saveBudget} className="btn-secondary text-xs px-3 py-1">
+                Save
+              </button>
+            </div>
+            {overBudget && (
+              <p className="text-xs text-red-400">
+                Budget reached: AI calls are blocked until next month (imports fall back to the offline classifier).
+              </p>
+            )}
+
+            <div>
+              <div className="text-xs font-medium text-[var(--muted-foreground)] mb-1">Per day</div>
+              {summary.days.length === 0 ? (
+                <p className="text-xs text-[var(--muted-foreground)]">No AI calls yet.</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <tbody>
+                    {summary.days.slice(0, DAYS_SHOWN).map(day => (
+                      <tr key={day.date} className="border-t border-[var(--border)]/50">
+                        <td className="py-1">{day.date}</td>
+                        <td>{day.calls} calls</td>
+                        <td className="text-[var(--muted-foreground)]">{formatTokens(day)}</td>
+                        <td className="text-[var(--muted-foreground)]">{averageLatency(day)}</td>
+                        <td className="text-right">{formatSpend(day)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {summary.imports.length > 0 && (
+              <div>
+                <div className="text-xs font-medium text-[var(--muted-foreground)] mb-1">Per import</div>
+                <ul className="space-y-1 text-xs">
+                  {summary.imports.map(item => (
+                    <li key={item.id} className="flex gap-2 border-t border-[var(--border)]/50 pt-1">
+                      <span className="flex-1 truncate">
+                        {item.label}
+                        <span className="block text-[var(--muted-foreground)]">
+                          {new Date(item.startedAt).toLocaleString()} · {item.calls} calls · {formatTokens(item)}
+                        </span>
+                      </span>
+                      <span>{formatSpend(item)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2 mt-4 justify-end">
+          <button onClick={onClose} className="btn-secondary text-sm px-4 py-2">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Folder } from "@/lib/types";
+import { countTasks } from "@/lib/snapshots";
+import { ParsedWorkspace } from "@/lib/workspace";
+
+export type WorkspaceImportMode = "merge" | "replace";
+
+interface WorkspaceImportReviewProps {
+  fileName: string;
+  workspace: ParsedWorkspace;
+  currentFolders: Folder[];
+  onConfirm: (mode: WorkspaceImportMode) => void;
+  onCancel: () => void;
+}
+
+const MODE_DESCRIPTIONS: Record<WorkspaceImportMode, string> = {
+  merge: "Add its folders to yours (same-named folders are merged) and combine aliases and corrections. Your undo history is kept.",
+  replace: "Swap your board for the exported one, including its undo history, aliases and corrections.",
+};
+
+export function WorkspaceImportReview({ fileName, workspace, currentFolders, onConfirm, onCancel }: WorkspaceImportReviewProps) {
+  // Merging can't lose anything on this side, so it's the default
+  const [mode, setMode] = useState<WorkspaceImportMode>("merge");
+  const { data, savedAt, warnings } = workspace;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-[var(--background)] border border-[var(--border)] rounded-xl p-4 w-full max-w-lg flex flex-col text-sm">
+        <h2 className="font-semibold mb-1">Import workspace</h2>
+        <p className="text-xs text-[var(--muted-foreground)] mb-3">
+          {fileName}{savedAt !== null && ` · exported ${new Date(savedAt).toLocaleString()}`}
+        </p>
+
+        <ul className="text-xs text-[var(--muted-foreground)] mb-3 space-y-0.5">
+          <li>{data.folders.length} folders · {countTasks(data.folders)} tasks</li>
+          <li>{data.history.past.length} undo steps · {data.snapshots.length} restore points</li>
+          <li>{data.aliases.length} aliases · {data.corrections.length} corrections</li>
+        </ul>
+        {warnings.length > 0 && (
+          <ul className="text-xs text-yellow-500 mb-3">
+            {warnings.map(w => <li key={w}>{w}</li>)}
+          </ul>
+        )}
+
+        <div className="space-y-2">
+          {(Object.keys(MODE_DESCRIPTIONS) as WorkspaceImportMode[]).map(m => (
+            <label key={m} className="flex items-start gap-2 border border-[var(--border)] rounded-lg p-2 cursor-pointer">
+              <input type="radio" checked={mode === m} onChange={() => setMode(m)} className="mt-1 accent-[var(--primary)]" />
+              <span>
+                <span className="font-medium capitalize">{m}</span>
+                <span className="block text-xs text-[var(--muted-foreground)]">{MODE_DESCRIPTIONS[m]}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+        {mode === "replace" && currentFolders.length > 0 && (
+          <p className="text-xs text-[var(--muted-foreground)] mt-2">
+            Your current {currentFolders.length} folders are saved as a restore point first.
+          </p>
+        )}
+
+        <div className="flex gap-2 mt-4 justify-end">
+          <button onClick={onCancel} className="btn-secondary text-sm px-4 py-2">
+            Cancel
+          </button>
+          <button onClick={() => onConfirm(mode)} className="btn-primary text-sm px-4 py-2">
+            {mode === "merge" ? "Merge" : "Replace"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,36 +1,86 @@
 /**
  * Model-agnostic AI client wrapper
- * Uses OpenAI SDK but supports swapping to Gemini/Claude via environment
+ * Every route talks to an AIClient; the provider behind it is picked via env or per request
  */
 
 import OpenAI from 'openai';
+import Replicate from 'replicate';
+import { readSSE } from './sse';
 
-export type AIProvider = 'openai' | 'gemini' | 'claude' | 'replicate';
+export type AIProvider = 'openai' | 'gemini' | 'claude' | 'replicate' | 'local';
+
+export const AI_PROVIDERS: AIProvider[] = ['openai', 'gemini', 'claude', 'replicate', 'local'];
+
+export interface CompletionRequest {
+    prompt: string;
+    system?: string;
+    temperature?: number;
+    topP?: number;
+    maxTokens?: number;
+    signal?: AbortSignal;
+    // Called with the provider's token counts, for providers that report them
+    onUsage?: (usage: TokenCounts) => void;
+}
+
+export interface TokenCounts {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface AIClient {
+    provider: AIProvider;
+    model: string;
+    complete(request: CompletionRequest): Promise<string>;
+    stream(request: CompletionRequest): AsyncGenerator<string>;
+    // Only providers with an embeddings endpoint implement this
+    embed?(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
 
 interface AIClientConfig {
     apiKey: string;
     provider?: AIProvider;
+    model?: string;
+    baseURL?: string;
 }
 
-export function createAIClient(config: AIClientConfig): OpenAI {
-    const { apiKey, provider = 'openai' } = config;
+/**
+ * Thrown when the requested provider can't be used (unknown name, missing key)
+ */
+export class AIConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AIConfigError';
+    }
+}
 
-    // Configure base URL based on provider
-    // OpenAI SDK can work with compatible APIs
-    const baseURLMap: Record<AIProvider, string | undefined> = {
-        openai: undefined, // Uses default
-        gemini: 'https://generativelanguage.googleapis.com/v1beta/openai/', // Compatible endpoint
-        claude: 'https://api.anthropic.com/v1/', // Note: May need adapter
-        replicate: 'https://api.replicate.com/v1/', // Replicate OpenAI-compatible endpoint
-    };
+/**
+ * Thrown by adapters when the provider answers with a non-2xx status
+ */
+export class AIProviderError extends Error {
+    status?: number;
+    retryAfter?: string;
 
-    return new OpenAI({
-        apiKey,
-        baseURL: baseURLMap[provider],
-        defaultHeaders: provider === 'claude' ? {
-            'anthropic-version': '2023-06-01',
-        } : undefined,
-    });
+    constructor(message: string, status?: number, retryAfter?: string) {
+        super(message);
+        this.name = 'AIProviderError';
+        this.status = status;
+        this.retryAfter = retryAfter;
+    }
+}
+
+const DEFAULT_MAX_TOKENS = 4000;
+const EMBEDDING_BATCH_SIZE = 256;
+
+const API_KEY_ENV: Record<AIProvider, string | undefined> = {
+    openai: 'OPENAI_API_KEY',
+    gemini: 'GEMINI_API_KEY',
+    claude: 'ANTHROPIC_API_KEY',
+    replicate: 'REPLICATE_API_KEY',
+    local: undefined, // Ollama and friends don't check keys
+};
+
+export function isAIProvider(value: unknown): value is AIProvider {
+    return typeof value === 'string' && AI_PROVIDERS.includes(value as AIProvider);
 }
 
 export function getModelForProvider(provider: AIProvider): string {
@@ -38,24 +88,250 @@ export function getModelForProvider(provider: AIProvider): string {
         openai: 'gpt-4o-mini',
         gemini: 'gemini-2.0-flash',
         claude: 'claude-3-5-sonnet-latest',
-        replicate: 'meta/llama-3.3-70b-instruct',
+        replicate: 'meta/meta-llama-3-70b-instruct',
+        local: 'llama3.1',
     };
     return modelMap[provider];
 }
 
-export const SORT_SYSTEM_PROMPT = `You are an expert organizer. Analyze the given tasks and categorize them.
+export function getEmbeddingModelForProvider(provider: AIProvider): string | undefined {
+    const modelMap: Partial<Record<AIProvider, string>> = {
+        openai: 'text-embedding-3-small',
+        gemini: 'text-embedding-004',
+        local: 'nomic-embed-text',
+    };
+    return process.env.AI_EMBEDDING_MODEL || modelMap[provider];
+}
+
+export function createAIClient(config: AIClientConfig): AIClient {
+    const { apiKey, provider = 'openai', baseURL } = config;
+    const model = config.model || getModelForProvider(provider);
+
+    switch (provider) {
+        case 'claude':
+            return createAnthropicClient(apiKey, model);
+        case 'replicate':
+            return createReplicateClient(apiKey, model);
+        case 'gemini':
+            return createOpenAICompatibleClient(provider, model, apiKey,
+                baseURL || 'https://generativelanguage.googleapis.com/v1beta/openai/');
+        case 'local':
+            return createOpenAICompatibleClient(provider, model, apiKey || 'local',
+                baseURL || process.env.LOCAL_AI_BASE_URL || 'http://localhost:11434/v1');
+        default:
+            return createOpenAICompatibleClient(provider, model, apiKey, baseURL);
+    }
+}
+
+/**
+ * Builds a client from env, letting the request override provider and model.
+ * Provider: request > AI_PROVIDER > replicate. Model: request > AI_MODEL > provider default.
+ */
+export function resolveAIClient(options: { provider?: string; model?: string } = {}): AIClient {
+    const provider = options.provider || process.env.AI_PROVIDER || 'replicate';
+    if (!isAIProvider(provider)) {
+        throw new AIConfigError(`Unknown AI provider: ${provider}`);
+    }
+
+    const keyEnv = API_KEY_ENV[provider];
+    const apiKey = keyEnv ? process.env[keyEnv] : '';
+    if (keyEnv && !apiKey) {
+        throw new AIConfigError('API key not configured');
+    }
+
+    return createAIClient({
+        apiKey: apiKey || '',
+        provider,
+        model: options.model || process.env.AI_MODEL,
+    });
+}
+
+function createOpenAICompatibleClient(
+    provider: AIProvider,
+    model: string,
+    apiKey: string,
+    baseURL?: string
+): AIClient {
+    const openai = new OpenAI({ apiKey, baseURL });
+    const embeddingModel = getEmbeddingModelForProvider(provider);
+
+    const toMessages = (request: CompletionRequest): OpenAI.Chat.ChatCompletionMessageParam[] => [
+        ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+        { role: 'user' as const, content: request.prompt },
+    ];
+
+    return {
+        provider,
+        model,
+        async complete(request) {
+            const completion = await openai.chat.completions.create({
+                model,
+                messages: toMessages(request),
+                temperature: request.temperature,
+                top_p: request.topP,
+                max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+            }, { signal: request.signal });
+            if (completion.usage) {
+                request.onUsage?.({
+                    inputTokens: completion.usage.prompt_tokens,
+                    outputTokens: completion.usage.completion_tokens,
+                });
+            }
+            return completion.choices[0]?.message?.content ?? '';
+        },
+        async *stream(request) {
+            const stream = await openai.chat.completions.create({
+                model,
+                messages: toMessages(request),
+                temperature: request.temperature,
+                top_p: request.topP,
+                max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+                stream: true,
+                // The last chunk then carries the token counts; not every compatible server accepts the option
+                ...(provider === 'openai' ? { stream_options: { include_usage: true } } : {}),
+            }, { signal: request.signal });
+            for await (const chunk of stream) {
+                const text = chunk.choices[0]?.delta?.content;
+                if (text) yield text;
+                if (chunk.usage) {
+                    request.onUsage?.({
+                        inputTokens: chunk.usage.prompt_tokens,
+                        outputTokens: chunk.usage.completion_tokens,
+                    });
+                }
+            }
+        },
+        async embed(texts, signal) {
+            if (!embeddingModel) throw new AIConfigError(`No embedding model for ${provider}`);
+            const vectors: number[][] = [];
+            for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+                const result = await openai.embeddings.create({
+                    model: embeddingModel,
+                    input: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+                }, { signal });
+                vectors.push(...result.data.sort((a, b) => a.index - b.index).map(d => d.embedding));
+            }
+            return vectors;
+        },
+    };
+}
+
+function createReplicateClient(apiKey: string, model: string): AIClient {
+    const replicate = new Replicate({ auth: apiKey });
+    const identifier = model as `${string}/${string}`;
 
-RULES:
-1. Assign each task to an existing bucket if one fits well
-2. Create new specific, one-word buckets only when necessary (e.g., 'Health', 'Coding', 'Errands', 'Finance', 'Social')
-3. Be consistent - use existing buckets when possible
-4. Keep bucket names simple and actionable
+    const toInput = (request: CompletionRequest) => ({
+        prompt: request.prompt,
+        ...(request.system ? { system_prompt: request.system } : {}),
+        temperature: request.temperature,
+        top_p: request.topP,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+    });
+
+    return {
+        provider: 'replicate',
+        model,
+        async complete(request) {
+            const output = await replicate.run(identifier, {
+                input: toInput(request),
+                signal: request.signal,
+            });
+            // Llama models on Replicate return an array of string tokens
+            return Array.isArray(output) ? output.join('') : String(output);
+        },
+        async *stream(request) {
+            for await (const event of replicate.stream(identifier, {
+                input: toInput(request),
+                signal: request.signal,
+            })) {
+                if (event.event === 'output') yield event.data;
+            }
+        },
+    };
+}
+
+// Anthropic's Messages API isn't OpenAI-compatible, so it gets a small fetch adapter
+const ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+interface AnthropicContentBlock {
+    type: string;
+    text?: string;
+}
 
-Return ONLY a valid JSON object with this exact structure:
-{
-  "tasks": [
-    { "text": "the original task text", "bucket": "BucketName" }
-  ]
+interface AnthropicUsage {
+    input_tokens?: number;
+    output_tokens?: number;
 }
 
-Do not include any explanation or markdown, only the JSON.`;
+function createAnthropicClient(apiKey: string, model: string): AIClient {
+    const send = async (request: CompletionRequest, stream: boolean): Promise<Response> => {
+        const response = await fetch(ANTHROPIC_URL, {
+            method: 'POST',
+            headers: {
+                'content-type': 'application/json',
+                'x-api-key': apiKey,
+                'anthropic-version': ANTHROPIC_VERSION,
+            },
+            body: JSON.stringify({
+                model,
+                max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+                temperature: request.temperature,
+                top_p: request.topP,
+                system: request.system,
+                messages: [{ role: 'user', content: request.prompt }],
+                stream,
+            }),
+            signal: request.signal,
+        });
+
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new AIProviderError(
+                `Anthropic request failed (${response.status}): ${detail.substring(0, 200)}`,
+                response.status,
+                response.headers.get('retry-after') ?? undefined
+            );
+        }
+        return response;
+    };
+
+    return {
+        provider: 'claude',
+        model,
+        async complete(request) {
+            const response = await send(request, false);
+            const data: { content?: AnthropicContentBlock[]; usage?: AnthropicUsage } = await response.json();
+            if (data.usage) {
+                request.onUsage?.({
+                    inputTokens: data.usage.input_tokens ?? 0,
+                    outputTokens: data.usage.output_tokens ?? 0,
+                });
+            }
+            return (data.content ?? [])
+                .filter(block => block.type === 'text')
+                .map(block => block.text ?? '')
+                .join('');
+        },
+        async *stream(request) {
+            const response = await send(request, true);
+            // Input tokens come with message_start, the running output count with each message_delta
+            let inputTokens = 0;
+            let outputTokens = 0;
+            for await (const message of readSSE(response)) {
+                const event = JSON.parse(message.data);
+                if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+                    yield event.delta.text as string;
+                } else if (event.type === 'message_start') {
+                    inputTokens = event.message?.usage?.input_tokens ?? 0;
+                } else if (event.type === 'message_delta') {
+                    outputTokens = event.usage?.output_tokens ?? outputTokens;
+                } else if (event.type === 'message_stop') {
+                    request.onUsage?.({ inputTokens, outputTokens });
+                } else if (event.type === 'error') {
+                    throw new AIProviderError(event.error?.message || 'Anthropic stream error');
+                }
+            }
+        },
+    };
+}
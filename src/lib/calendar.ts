@@ -0,0 +1,205 @@
+/**
+ * Plans deconstructed steps into calendar time blocks and writes them as an ICS file, so a plan
+ * can go into any calendar app without a live calendar service.
+ */
+
+import type { Folder, Task } from "./types";
+
+// Steps are written to take at most three minutes (see the deconstructor prompt)
+export const DEFAULT_STEP_MINUTES = 3;
+
+export interface TimeBlockOptions {
+  start: Date;
+  // Minutes since midnight, local time
+  workdayStart: number;
+  workdayEnd: number;
+  // 0 = Sunday … 6 = Saturday
+  workdays: number[];
+  // Steps are packed into blocks of up to this many minutes
+  blockMinutes: number;
+  breakMinutes: number;
+}
+
+export const DEFAULT_TIME_BLOCK_OPTIONS: Omit<TimeBlockOptions, "start"> = {
+  workdayStart: 9 * 60,
+  workdayEnd: 17 * 60,
+  workdays: [1, 2, 3, 4, 5],
+  blockMinutes: 25,
+  breakMinutes: 5,
+};
+
+export interface PlannedStep {
+  // The step's task id
+  id: string;
+  text: string;
+  minutes: number;
+}
+
+export interface TimeBlock {
+  start: Date;
+  end: Date;
+  folderId: string;
+  folder: string;
+  // The top-level task the steps belong to
+  goal: string;
+  steps: PlannedStep[];
+}
+
+// "(15m)", "[1h]", "~20 min", "≤3m"
+const ESTIMATE_PATTERN = /[(\[~≤]\s*(\d+(?:\.\d+)?)\s*(m|mins?|minutes?|h|hrs?|hours?)\b\s*[)\]]?/i;
+
+/**
+ * A step's own estimate when its text carries one, otherwise the deconstructor's three-minute budget
+ */
+export function estimateMinutes(text: string, fallback: number = DEFAULT_STEP_MINUTES): number {
+  const match = text.match(ESTIMATE_PATTERN);
+  if (!match) return fallback;
+  const value = parseFloat(match[1]);
+  const minutes = match[2].toLowerCase().startsWith("h") ? value * 60 : value;
+  return Math.max(1, Math.round(minutes));
+}
+
+// Open leaves, depth first; a childless milestone is a heading still waiting for steps, not a step
+function collectSteps(tasks: Task[]): PlannedStep[] {
+  return tasks.flatMap(t => {
+    if (t.completed) return [];
+    if (t.children.length > 0) return collectSteps(t.children);
+    if (t.text.startsWith("🎯")) return [];
+    return [{ id: t.id, text: t.text, minutes: estimateMinutes(t.text) }];
+  });
+}
+
+function atMinutes(day: Date, minutes: number): Date {
+  const date = new Date(day);
+  date.setHours(0, minutes, 0, 0);
+  return date;
+}
+
+function minutesOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60;
+}
+
+// The first moment at or after `from` that falls inside working hours
+function nextWorkingTime(from: Date, options: TimeBlockOptions): Date {
+  let day = new Date(from);
+  for (let i = 0; i < 14; i++) {
+    if (options.workdays.includes(day.getDay())) {
+      const minutes = minutesOfDay(day);
+      if (minutes < options.workdayStart) return atMinutes(day, options.workdayStart);
+      if (minutes < options.workdayEnd) return day;
+    }
+    day = atMinutes(new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1), 0);
+  }
+  throw new Error("No working days selected");
+}
+
+/**
+ * Finds room for a block of `minutes`, moving to the next working day when it wouldn't finish
+ * before the end of this one. A block longer than a whole workday starts at the top of a day.
+ */
+function placeBlock(cursor: Date, minutes: number, options: TimeBlockOptions): Date {
+  const start = nextWorkingTime(cursor, options);
+  const fitsToday = minutesOfDay(start) + minutes <= options.workdayEnd;
+  const isDayStart = minutesOfDay(start) === options.workdayStart;
+  if (fitsToday || isDayStart) return start;
+  return nextWorkingTime(atMinutes(start, options.workdayEnd), options);
+}
+
+/**
+ * Packs each goal's open steps, in order, into consecutive blocks of up to `blockMinutes`,
+ * separated by `breakMinutes`, within working hours
+ */
+export function planTimeBlocks(folders: Folder[], options: TimeBlockOptions): TimeBlock[] {
+  const blocks: TimeBlock[] = [];
+  let cursor = options.start;
+
+  const schedule = (folder: Folder, goal: Task, steps: PlannedStep[]) => {
+    const minutes = steps.reduce((sum, s) => sum + s.minutes, 0);
+    const start = placeBlock(cursor, minutes, options);
+    const end = new Date(start.getTime() + minutes * 60_000);
+    blocks.push({ start, end, folderId: folder.id, folder: folder.name, goal: goal.text, steps });
+    cursor = new Date(end.getTime() + options.breakMinutes * 60_000);
+  };
+
+  for (const folder of folders) {
+    for (const goal of folder.tasks) {
+      let pending: PlannedStep[] = [];
+      let pendingMinutes = 0;
+      for (const step of collectSteps([goal])) {
+        if (pending.length > 0 && pendingMinutes + step.minutes > options.blockMinutes) {
+          schedule(folder, goal, pending);
+          pending = [];
+          pendingMinutes = 0;
+        }
+        pending.push(step);
+        pendingMinutes += step.minutes;
+      }
+      if (pending.length > 0) schedule(folder, goal, pending);
+    }
+  }
+  return blocks;
+}
+
+// ---------- ICS (RFC 5545) ----------
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Content lines are folded at 75 octets; continuation lines start with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function blockTitle(block: TimeBlock): string {
+  const goal = block.goal.replace(/^🎯\s*/, "");
+  return block.steps.length === 1 ? block.steps[0].text : `${goal} (${block.steps.length} steps)`;
+}
+
+export function toIcs(blocks: TimeBlock[], now: Date = new Date()): string {
+  const stamp = formatUtc(now);
+  const events = blocks.flatMap(block => [
+    "BEGIN:VEVENT",
+    // Named after the block's first step, which no other block shares: as long as a block still
+    // starts with the same step, importing a new export moves that event instead of adding a copy
+    `UID:${block.folderId}-${block.steps[0].id}@flowlist`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatUtc(block.start)}`,
+    `DTEND:${formatUtc(block.end)}`,
+    `SUMMARY:${escapeText(blockTitle(block))}`,
+    `DESCRIPTION:${escapeText(block.steps.map(s => `- ${s.text} (${s.minutes}m)`).join("\n"))}`,
+    `CATEGORIES:${escapeText(block.folder)}`,
+    "TRANSP:OPAQUE",
+    "END:VEVENT",
+  ]);
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Flowlist//Time blocks//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...events,
+    "END:VCALENDAR",
+  ].map(foldLine).join("\r\n") + "\r\n";
+}
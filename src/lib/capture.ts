@@ -0,0 +1,99 @@
+/**
+ * Splits free-form text (pasted lists, notes, email replies) into logical lines before action
+ * items are extracted from it, the same way for pasted text and dropped files.
+ */
+
+// "- ", "* ", "• ", "1. ", "2) ", "a) ", optionally followed by a checkbox
+const LIST_MARKER = /^(?:[-*+•▪◦]|\d+[.)]|[a-z][.)](?=\s))\s*(?:\[[ xX]?\]\s*)?/;
+const CHECKBOX = /^\[([ xX]?)\]\s*/;
+const DONE_CHECKBOX = /^(?:[-*+•]\s*)?\[[xX]\]/;
+// "> " quoting from email replies, possibly nested
+const QUOTE_PREFIX = /^(?:>\s?)+/;
+// "---", "***", "===" on their own
+const DIVIDER = /^([-*_=])\1{2,}$/;
+const INDENT = "  ";
+
+export interface CapturedLine {
+  // Without list markers, checkboxes or quoting
+  text: string;
+  // As written, continuation lines included
+  source: string;
+  listItem: boolean;
+  done: boolean;
+  divider: boolean;
+  // A line and the lines indented under it share a group, so they are sorted in one batch
+  group: number;
+}
+
+export interface GroupedLine {
+  text: string;
+  group: number;
+}
+
+// Tabs count as one level (two spaces), as in the batch planner
+function indentWidth(line: string): number {
+  return (line.match(/^[ \t]*/)?.[0] ?? "").replace(/\t/g, INDENT).length;
+}
+
+/**
+ * One entry per logical line: list markers, checkboxes and email quoting are stripped, and an
+ * indented line without a marker continues the item above it (wrapped text from emails and editors).
+ */
+export function captureEntries(text: string): CapturedLine[] {
+  const entries: CapturedLine[] = [];
+  let previousWasItem = false;
+  let group = -1;
+  let groupIndent = 0;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const unquoted = raw.replace(QUOTE_PREFIX, "");
+    const trimmed = unquoted.trim();
+    if (!trimmed) {
+      previousWasItem = false;
+      continue;
+    }
+    const indent = indentWidth(unquoted);
+    const nextGroup = () => {
+      if (group >= 0 && indent > groupIndent) return group;
+      groupIndent = indent;
+      return ++group;
+    };
+    if (DIVIDER.test(trimmed)) {
+      entries.push({ text: trimmed, source: raw.trim(), listItem: false, done: false, divider: true, group: nextGroup() });
+      previousWasItem = false;
+      continue;
+    }
+
+    const marker = trimmed.match(LIST_MARKER) ?? trimmed.match(CHECKBOX);
+    const isContinuation = !marker && previousWasItem && /^\s/.test(unquoted);
+    const content = (marker ? trimmed.slice(marker[0].length) : trimmed).trim();
+    if (!content) continue;
+
+    if (isContinuation) {
+      const previous = entries[entries.length - 1];
+      previous.text += ` ${content}`;
+      previous.source += `\n${raw.trim()}`;
+    } else {
+      entries.push({
+        text: content,
+        source: raw.trim(),
+        listItem: Boolean(marker),
+        done: DONE_CHECKBOX.test(trimmed),
+        divider: false,
+        group: nextGroup(),
+      });
+      previousWasItem = Boolean(marker);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Lines back into text for the sort request, each group's later lines indented under its first,
+ * so the batch planner keeps them together whatever was dropped in between
+ */
+export function joinGroups(lines: GroupedLine[]): string {
+  return lines
+    .map((line, i) => (i > 0 && lines[i - 1].group === line.group ? `${INDENT}${line.text}` : line.text))
+    .join("\n");
+}
@@ -0,0 +1,141 @@
+/**
+ * The checklist format used by ZIP import/export: one file per folder, "- [ ] task" per line,
+ * two spaces of indentation per level of nesting, files grouped in tier directories.
+ *
+ * Round trip: exportFolders → parseChecklistFile yields the same names, tiers, texts, completion
+ * state and nesting (only ids and the expanded flag are regenerated). Task text is kept on one line,
+ * so newlines inside a task become spaces on export.
+ */
+
+import type { Folder, Task, Tier } from "./types";
+
+export const UNSORTED_DIR = "_Unsorted";
+const INDENT = "  ";
+const TIER_NAMES = ["S", "A", "B", "C", "D", "F"];
+
+// "- [x] ", "* ", "1. " and friends; the checkbox is optional
+const ITEM_PATTERN = /^(?:[-*+•]|\d+[.)])(?:\s+|$)(?:\[([ xX])\](?:\s+|$))?/;
+// Legacy "[A] Name" file names
+const TIER_PREFIX = /^\[([SABCDF])\]\s*(.+)$/i;
+// Legacy "Name (5)" count suffix
+const COUNT_SUFFIX = /\s*\(\d+\)$/;
+
+export interface ChecklistFile {
+  path: string;
+  content: string;
+}
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 11);
+}
+
+// Tabs count as one level (two spaces) so tab- and space-indented files nest the same way
+function indentWidth(whitespace: string): number {
+  return whitespace.replace(/\t/g, INDENT).length;
+}
+
+/**
+ * Parses checklist lines into a task tree. A line's parent is the closest line above it with less
+ * indentation, so 2-space, 4-space and tab-indented files all nest correctly.
+ */
+export function parseChecklist(text: string): Task[] {
+  const roots: Task[] = [];
+  const stack: { task: Task; indent: number }[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim().length === 0) continue;
+
+    const indent = indentWidth(line.match(/^\s*/)?.[0] ?? "");
+    const body = line.trim();
+    const match = body.match(ITEM_PATTERN);
+    const task: Task = {
+      id: generateId(),
+      text: (match ? body.slice(match[0].length) : body).trim(),
+      completed: match?.[1] === "x" || match?.[1] === "X",
+      children: [],
+    };
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+    const parent = stack[stack.length - 1];
+    if (parent) parent.task.children.push(task);
+    else roots.push(task);
+    stack.push({ task, indent });
+  }
+  return roots;
+}
+
+function toLine(text: string): string {
+  return text.replace(/\s*\r?\n\s*/g, " ").trim();
+}
+
+export function serializeChecklist(tasks: Task[], depth: number = 0): string {
+  return tasks
+    .map(t => {
+      const line = `${INDENT.repeat(depth)}- [${t.completed ? "x" : " "}] ${toLine(t.text)}`;
+      return t.children.length > 0 ? `${line}\n${serializeChecklist(t.children, depth + 1)}` : line;
+    })
+    .join("\n");
+}
+
+/**
+ * Makes a folder name safe as a file name without losing anything on the way back: "/" can't
+ * appear in a path, and a leading "[A] " or trailing "(5)" would be read as a tier or count.
+ */
+export function encodeFolderName(name: string): string {
+  let encoded = name.replace(/%/g, "%25").replace(/\//g, "%2F").replace(/\\/g, "%5C");
+  if (TIER_PREFIX.test(encoded)) encoded = `%5B${encoded.slice(1)}`;
+  const count = encoded.match(COUNT_SUFFIX);
+  if (count) {
+    const open = encoded.lastIndexOf("(");
+    encoded = `${encoded.slice(0, open)}%28${encoded.slice(open + 1)}`;
+  }
+  return encoded;
+}
+
+export function decodeFolderName(encoded: string): string {
+  return encoded.replace(/%(25|2F|5C|5B|28)/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)));
+}
+
+export function isChecklistPath(path: string): boolean {
+  if (path.startsWith("__MACOSX/") || path.includes(".DS_Store")) return false;
+  return /\.(txt|md)$/i.test(path);
+}
+
+/**
+ * Reads one file of an export. The tier comes from its directory ("A/Work.txt") or, for older
+ * exports, a "[A] Work.txt" prefix; a "Work (5).txt" count suffix is dropped.
+ */
+export function parseChecklistFile(path: string, text: string): Omit<Folder, "id" | "expanded"> {
+  const parts = path.split("/");
+  let name = parts[parts.length - 1].replace(/\.(txt|md)$/i, "");
+  const parentDir = parts.length > 1 ? parts[parts.length - 2] : "";
+  let tier: Tier = TIER_NAMES.includes(parentDir) ? parentDir as Tier : null;
+
+  const prefixed = name.match(TIER_PREFIX);
+  if (prefixed) {
+    tier = prefixed[1].toUpperCase() as Tier;
+    name = prefixed[2];
+  }
+  name = decodeFolderName(name.replace(COUNT_SUFFIX, ""));
+
+  return { name, tier, tasks: parseChecklist(text) };
+}
+
+/**
+ * One file per folder, in a directory per tier (unrated folders under _Unsorted). Folders sharing a
+ * name within a tier get a "Work (2).txt" suffix, which the import drops again.
+ */
+export function exportFolders(folders: Folder[], root: string = ""): ChecklistFile[] {
+  const prefix = root ? `${root}/` : "";
+  // Compared case-insensitively so the files don't overwrite each other on macOS/Windows either
+  const seen = new Map<string, number>();
+  return folders.map(folder => {
+    const base = `${prefix}${folder.tier ?? UNSORTED_DIR}/${encodeFolderName(folder.name)}`;
+    const count = (seen.get(base.toLowerCase()) ?? 0) + 1;
+    seen.set(base.toLowerCase(), count);
+    return {
+      path: count > 1 ? `${base} (${count}).txt` : `${base}.txt`,
+      content: serializeChecklist(folder.tasks),
+    };
+  });
+}
@@ -1,6 +1,8 @@
 /**
- * Splits a large text file into batches of lines for sequential processing.
- * Filters empty lines and preserves task structure.
+ * Splits a dump into batches sized for the model that will sort them.
+ * Each batch has to fit the model's context window with the prompt around it, and the JSON answer
+ * (every line echoed back with its bucket) has to fit the model's output limit. Indented sub-items
+ * travel in the same batch as the line they belong to.
  */
 
 export interface Batch {
@@ -9,36 +11,151 @@ export interface Batch {
     total: number;
 }
 
-export function splitIntoBatches(text: string, linesPerBatch: number = 50): Batch[] {
-    // Split text into lines and filter out empty/whitespace-only lines
-    const lines = text
-        .split(/\r?\n/)
-        .map(line => line.trim())
-        .filter(line => line.length > 0);
+export interface ModelLimits {
+    contextTokens: number;
+    outputTokens: number;
+}
+
+export interface BatchOptions {
+    // Model the batches are sent to; unknown models get conservative limits
+    model?: string;
+    // Prompt text around the lines (instructions, buckets, examples)
+    promptTokens?: number;
+    // Upper bound regardless of tokens, so one failed call doesn't lose too much
+    maxLines?: number;
+}
+
+// Matched by prefix, most specific first
+const MODEL_LIMITS: [string, ModelLimits][] = [
+    ['gpt-4o', { contextTokens: 128000, outputTokens: 16384 }],
+    ['gpt-4.1', { contextTokens: 1047576, outputTokens: 32768 }],
+    ['gpt-4-turbo', { contextTokens: 128000, outputTokens: 4096 }],
+    ['gpt-3.5-turbo', { contextTokens: 16385, outputTokens: 4096 }],
+    ['gemini-1.5', { contextTokens: 1048576, outputTokens: 8192 }],
+    ['gemini-2', { contextTokens: 1048576, outputTokens: 8192 }],
+    ['claude-3-5', { contextTokens: 200000, outputTokens: 8192 }],
+    ['claude-3-7', { contextTokens: 200000, outputTokens: 8192 }],
+    ['claude-3', { contextTokens: 200000, outputTokens: 4096 }],
+    ['claude', { contextTokens: 200000, outputTokens: 8192 }],
+    ['meta/meta-llama-3-', { contextTokens: 8192, outputTokens: 2048 }],
+    // Ollama's default num_ctx, whatever the model itself supports
+    ['llama', { contextTokens: 4096, outputTokens: 2048 }],
+];
+
+const DEFAULT_LIMITS: ModelLimits = { contextTokens: 8192, outputTokens: 2048 };
+
+const CHARS_PER_TOKEN = 4;
+// Numbering and newline per line in the prompt
+const INPUT_TOKENS_PER_LINE = 3;
+// {"text": "...", "bucket": "..."} around each echoed line
+const OUTPUT_TOKENS_PER_LINE = 14;
+// Buckets created by earlier batches make the prompt grow, and estimates are rough
+const BUDGET_HEADROOM = 0.8;
+const DEFAULT_PROMPT_TOKENS = 300;
+const DEFAULT_MAX_LINES = 100;
+
+/**
+ * Rough token count (about four characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function getModelLimits(model?: string): ModelLimits {
+    if (!model) return DEFAULT_LIMITS;
+    const name = model.toLowerCase();
+    // Provider prefixes like "openai/gpt-4o" or "models/gemini-2.0-flash" don't change the limits
+    const match = MODEL_LIMITS.find(([prefix]) => name.startsWith(prefix) || name.includes(`/${prefix}`));
+    return match ? match[1] : DEFAULT_LIMITS;
+}
+
+function indentation(line: string): number {
+    const leading = line.match(/^[ \t]*/)?.[0] ?? '';
+    return leading.replace(/\t/g, '  ').length;
+}
 
-    if (lines.length === 0) {
-        return [];
+/**
+ * Groups non-empty lines so every line indented deeper than the one before it stays with its parent.
+ * Lines come back trimmed.
+ */
+export function groupLines(text: string): string[][] {
+    const groups: string[][] = [];
+    let parentIndent = 0;
+
+    for (const line of text.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (!trimmed) continue;
+
+        const indent = indentation(line);
+        if (groups.length > 0 && indent > parentIndent) {
+            groups[groups.length - 1].push(trimmed);
+        } else {
+            groups.push([trimmed]);
+            parentIndent = indent;
+        }
     }
+    return groups;
+}
+
+function lineCost(line: string): { input: number; output: number } {
+    const tokens = estimateTokens(line);
+    return { input: tokens + INPUT_TOKENS_PER_LINE, output: tokens + OUTPUT_TOKENS_PER_LINE };
+}
+
+/**
+ * Plans batches against the model's limits. A group that doesn't fit in the room left is moved to
+ * the next batch whole; only a group too big for any batch is cut up.
+ */
+export function splitIntoBatches(text: string, options: BatchOptions = {}): Batch[] {
+    const limits = getModelLimits(options.model);
+    const promptTokens = options.promptTokens ?? DEFAULT_PROMPT_TOKENS;
+    const maxLines = Math.max(1, options.maxLines ?? DEFAULT_MAX_LINES);
+    const outputBudget = Math.floor(limits.outputTokens * BUDGET_HEADROOM);
+    const inputBudget = Math.floor((limits.contextTokens - limits.outputTokens - promptTokens) * BUDGET_HEADROOM);
+
+    const batches: string[][] = [];
+    let current: string[] = [];
+    let input = 0;
+    let output = 0;
+
+    const flush = () => {
+        if (current.length > 0) batches.push(current);
+        current = [];
+        input = 0;
+        output = 0;
+    };
+    const fits = (lines: string[], addInput: number, addOutput: number) =>
+        current.length + lines.length <= maxLines && input + addInput <= inputBudget && output + addOutput <= outputBudget;
+
+    for (const group of groupLines(text)) {
+        const costs = group.map(lineCost);
+        const groupInput = costs.reduce((sum, c) => sum + c.input, 0);
+        const groupOutput = costs.reduce((sum, c) => sum + c.output, 0);
 
-    const batches: Batch[] = [];
-    const totalBatches = Math.ceil(lines.length / linesPerBatch);
+        if (!fits(group, groupInput, groupOutput)) flush();
+        if (fits(group, groupInput, groupOutput)) {
+            current.push(...group);
+            input += groupInput;
+            output += groupOutput;
+            continue;
+        }
 
-    for (let i = 0; i < lines.length; i += linesPerBatch) {
-        const batchLines = lines.slice(i, i + linesPerBatch);
-        batches.push({
-            lines: batchLines,
-            index: batches.length,
-            total: totalBatches,
+        // Bigger than a whole batch: fall back to line by line, still in order
+        group.forEach((line, i) => {
+            if (!fits([line], costs[i].input, costs[i].output)) flush();
+            current.push(line);
+            input += costs[i].input;
+            output += costs[i].output;
         });
     }
+    flush();
 
-    return batches;
+    return batches.map((lines, index) => ({ lines, index, total: batches.length }));
 }
 
 /**
- * Estimates the total number of batches for a given file size
+ * Number of batches a dump will be sent in, for progress estimates before sorting starts
  */
-export function estimateBatches(charCount: number, avgCharsPerLine: number = 50, linesPerBatch: number = 50): number {
-    const estimatedLines = Math.ceil(charCount / avgCharsPerLine);
-    return Math.ceil(estimatedLines / linesPerBatch);
+export function estimateBatches(text: string, options: BatchOptions = {}): number {
+    return splitIntoBatches(text, options).length;
 }
@@ -0,0 +1,72 @@
+/**
+ * History of manual re-bucketing. Every time the user moves a task to another folder
+ * we keep the decision, and the most recent ones become few-shot examples for /api/sort.
+ */
+
+import { normalizeTaskText } from "./dedup";
+import { createPersistedDoc, validateList } from "./persistence";
+import type { Validation } from "./schemas";
+import type { SortExample } from "./types";
+
+const CORRECTIONS_KEY = "flowlist-corrections";
+const MAX_CORRECTIONS = 200;
+export const MAX_FEW_SHOT_EXAMPLES = 12;
+
+export interface Correction {
+  text: string;
+  from: string;
+  to: string;
+  at: number;
+}
+
+export function recordCorrection(history: Correction[], correction: Correction): Correction[] {
+  if (correction.from === correction.to) return history;
+  return [...history, correction].slice(-MAX_CORRECTIONS);
+}
+
+/**
+ * Most recent decision per task wins, newest first. Moves into folders that no longer exist are dropped.
+ */
+export function buildFewShotExamples(
+  history: Correction[],
+  existingBuckets: string[],
+  limit: number = MAX_FEW_SHOT_EXAMPLES
+): SortExample[] {
+  const buckets = new Set(existingBuckets);
+  const seen = new Set<string>();
+  const examples: SortExample[] = [];
+
+  for (let i = history.length - 1; i >= 0 && examples.length < limit; i--) {
+    const { text, to } = history[i];
+    const key = normalizeTaskText(text);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    if (buckets.has(to)) examples.push({ text, bucket: to });
+  }
+  return examples;
+}
+
+function isCorrection(value: unknown): value is Correction {
+  const c = value as Correction;
+  return typeof c?.text === "string" && typeof c.from === "string" && typeof c.to === "string" && typeof c.at === "number";
+}
+
+export function validateCorrections(data: unknown): Validation<Correction[]> {
+  return validateList(data, isCorrection, "corrections");
+}
+
+const correctionsDoc = createPersistedDoc<Correction[]>({
+  key: CORRECTIONS_KEY,
+  version: 1,
+  // v0 is the bare array
+  migrations: { 0: data => data },
+  validate: validateCorrections,
+});
+
+export async function loadCorrections(): Promise<Correction[]> {
+  return (await correctionsDoc.load()) ?? [];
+}
+
+export function saveCorrections(history: Correction[]): void {
+  correctionsDoc.save(history);
+}
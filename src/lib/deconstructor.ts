@@ -0,0 +1,81 @@
+/**
+ * Server-side task breakdown shared by /api/deconstruct and /api/deconstruct/stream
+ */
+
+import type { AIClient } from './ai-client';
+import { MilestoneStreamParser } from './milestone-stream';
+import { getPrompt, renderPrompt } from './prompts';
+import { cacheKey, type ResponseCache } from './response-cache';
+import { withRetry, type RetryPolicy } from './retry';
+import { generateValidated, parseMilestones } from './schemas';
+import type { DeconstructResponse, DeconstructStreamEvent } from './types';
+
+// Break-downs are short interactive calls: fail fast rather than keep the user waiting
+const RETRY_POLICY: Partial<RetryPolicy> = {
+    maxAttempts: 3,
+    baseDelayMs: 3000,
+    maxDelayMs: 10000,
+    budgetMs: 30000,
+};
+
+export function buildDeconstructPrompt(task: string, context?: string, promptVersion?: string): string {
+    const contextInfo = context ? `\nContext/Category: ${context}` : '';
+    return renderPrompt(getPrompt('deconstruct', promptVersion), { context: contextInfo, task });
+}
+
+export interface DeconstructOptions {
+    // The folder the task sits in, given to the model as its category
+    context?: string;
+    // Stops retries and the provider call when the client disconnects
+    signal?: AbortSignal;
+    onEvent?: (event: DeconstructStreamEvent) => void;
+    cache?: ResponseCache;
+    // A registered deconstruct prompt version; the default one otherwise
+    promptVersion?: string;
+}
+
+/**
+ * Breaks a task into validated milestones. With `onEvent`, milestones and steps are
+ * reported while the model is still generating; a `reset` precedes every retry.
+ * A cached answer is returned without any events, so callers rely on the result.
+ */
+export async function deconstructTask(
+    client: AIClient,
+    task: string,
+    options: DeconstructOptions = {}
+): Promise<DeconstructResponse> {
+    const { context, signal, onEvent, cache, promptVersion } = options;
+    const prompt = buildDeconstructPrompt(task, context, promptVersion);
+    const key = cacheKey({ kind: 'deconstruct', provider: client.provider, model: client.model, prompt });
+    const cached = await cache?.get<DeconstructResponse>(key);
+    if (cached) return cached;
+
+    let attempts = 0;
+
+    const streamCompletion = async (prompt: string): Promise<string> => {
+        if (attempts++ > 0) onEvent?.({ type: 'reset' });
+        const parser = new MilestoneStreamParser();
+        let output = "";
+        for await (const text of client.stream({
+            prompt,
+            temperature: 0.3,
+            topP: 0.9,
+            maxTokens: 1500,
+            signal,
+        })) {
+            output += text;
+            if (onEvent) parser.push(text).forEach(onEvent);
+        }
+        return output;
+    };
+
+    const generate = (prompt: string) => withRetry(
+        () => streamCompletion(prompt),
+        { ...RETRY_POLICY, signal, label: 'Deconstruct' }
+    );
+
+    // Validate milestones (max 3, string steps), re-prompting with the errors if malformed
+    const result = await generateValidated(generate, prompt, parseMilestones, { label: 'Deconstruct' });
+    await cache?.set(key, result);
+    return result;
+}
@@ -0,0 +1,202 @@
+/**
+ * Duplicate detection for incoming dumps.
+ * Compares each new line against every task at every depth (and earlier lines of the same dump)
+ * using normalized exact matching, fuzzy token/trigram similarity and, optionally, embeddings.
+ */
+
+import type { Folder, Task } from "./types";
+
+export const DEFAULT_FUZZY_THRESHOLD = 0.75;
+export const DEFAULT_EMBEDDING_THRESHOLD = 0.88;
+
+// Filler words that don't change what a task is about
+const STOPWORDS = new Set([
+  "a", "an", "the", "to", "of", "for", "and", "or", "re", "on", "in", "at", "with",
+  "my", "our", "your", "about", "some", "up", "do", "get",
+]);
+
+export interface TaskRef {
+  folderId: string | null; // null = an earlier line of the same dump
+  folderName: string;
+  taskId: string | null;
+  text: string;
+  depth: number;
+}
+
+export type MatchMethod = "exact" | "fuzzy" | "embedding";
+
+export interface DuplicateMatch {
+  line: string;
+  match: TaskRef;
+  score: number;
+  method: MatchMethod;
+}
+
+export interface DuplicateReport {
+  unique: string[];
+  exact: DuplicateMatch[];
+  near: DuplicateMatch[];
+}
+
+interface DedupOptions {
+  threshold?: number;
+  embeddingThreshold?: number;
+  // Vectors keyed by raw text; pairs missing a vector fall back to fuzzy scoring
+  embeddings?: Map<string, number[]>;
+}
+
+/**
+ * Lowercases, strips list/checkbox markers and punctuation, and collapses whitespace
+ */
+export function normalizeTaskText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/^\s*(?:[-*+•]|\d+[.)])?\s*(?:\[[ xX]\])?\s*/, "")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Crude plural folding so "bug" and "bugs" count as the same token
+const stem = (token: string) => token.length > 3 && token.endsWith("s") && !token.endsWith("ss") ? token.slice(0, -1) : token;
+
+function tokenize(normalized: string): Set<string> {
+  return new Set(normalized.split(" ").filter(t => t.length > 0 && !STOPWORDS.has(t)).map(stem));
+}
+
+/**
+ * Content words of a task, normalized and plural-folded
+ */
+export function taskTokens(text: string): string[] {
+  return Array.from(tokenize(normalizeTaskText(text)));
+}
+
+function trigrams(normalized: string): Set<string> {
+  const padded = `  ${normalized} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+}
+
+function intersectionSize(a: Set<string>, b: Set<string>): number {
+  let count = 0;
+  for (const item of a) if (b.has(item)) count++;
+  return count;
+}
+
+interface Fingerprint {
+  normalized: string;
+  tokens: Set<string>;
+  grams: Set<string>;
+}
+
+function fingerprint(text: string): Fingerprint {
+  const normalized = normalizeTaskText(text);
+  return { normalized, tokens: tokenize(normalized), grams: trigrams(normalized) };
+}
+
+/**
+ * 0..1 similarity. Token overlap catches "call dentist" vs "Call the dentist re: cleaning"
+ * (one is contained in the other); trigrams catch typos and inflections.
+ */
+function fuzzyScore(a: Fingerprint, b: Fingerprint): number {
+  if (a.normalized === b.normalized) return 1;
+
+  let tokenScore = 0;
+  if (a.tokens.size > 0 && b.tokens.size > 0) {
+    const shared = intersectionSize(a.tokens, b.tokens);
+    const jaccard = shared / (a.tokens.size + b.tokens.size - shared);
+    const containment = shared / Math.min(a.tokens.size, b.tokens.size);
+    tokenScore = (jaccard + containment) / 2;
+  }
+
+  const sharedGrams = intersectionSize(a.grams, b.grams);
+  const dice = (2 * sharedGrams) / (a.grams.size + b.grams.size || 1);
+
+  return Math.max(tokenScore, dice);
+}
+
+export function similarity(a: string, b: string): number {
+  return fuzzyScore(fingerprint(a), fingerprint(b));
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Every task in every folder, at every depth
+ */
+export function collectTaskRefs(folders: Folder[]): TaskRef[] {
+  const refs: TaskRef[] = [];
+  const walk = (folder: Folder, tasks: Task[], depth: number) => {
+    for (const task of tasks) {
+      refs.push({ folderId: folder.id, folderName: folder.name, taskId: task.id, text: task.text, depth });
+      walk(folder, task.children, depth + 1);
+    }
+  };
+  folders.forEach(f => walk(f, f.tasks, 0));
+  return refs;
+}
+
+export function findDuplicates(lines: string[], folders: Folder[], options: DedupOptions = {}): DuplicateReport {
+  const {
+    threshold = DEFAULT_FUZZY_THRESHOLD,
+    embeddingThreshold = DEFAULT_EMBEDDING_THRESHOLD,
+    embeddings,
+  } = options;
+
+  const candidates = collectTaskRefs(folders).map(ref => ({ ref, print: fingerprint(ref.text) }));
+  const exactIndex = new Map(candidates.map(c => [c.print.normalized, c.ref]));
+
+  const report: DuplicateReport = { unique: [], exact: [], near: [] };
+
+  for (const line of lines) {
+    const print = fingerprint(line);
+    if (!print.normalized) continue;
+
+    const exact = exactIndex.get(print.normalized);
+    if (exact) {
+      report.exact.push({ line, match: exact, score: 1, method: "exact" });
+      continue;
+    }
+
+    let best: DuplicateMatch | null = null;
+    const lineVector = embeddings?.get(line);
+    for (const { ref, print: other } of candidates) {
+      const fuzzy = fuzzyScore(print, other);
+      if (fuzzy >= threshold && (!best || fuzzy > best.score)) {
+        best = { line, match: ref, score: fuzzy, method: "fuzzy" };
+      }
+
+      const otherVector = lineVector && embeddings?.get(ref.text);
+      if (lineVector && otherVector) {
+        const cosine = cosineSimilarity(lineVector, otherVector);
+        if (cosine >= embeddingThreshold && (!best || cosine > best.score)) {
+          best = { line, match: ref, score: cosine, method: "embedding" };
+        }
+      }
+    }
+
+    if (best) {
+      report.near.push(best);
+    } else {
+      report.unique.push(line);
+    }
+
+    // Later lines of the same dump are checked against this one too
+    const ref: TaskRef = { folderId: null, folderName: "This import", taskId: null, text: line, depth: 0 };
+    candidates.push({ ref, print });
+    exactIndex.set(print.normalized, ref);
+  }
+
+  return report;
+}
@@ -0,0 +1,220 @@
+/**
+ * Action-item extraction ahead of sorting. Meeting notes, journal entries and emails mix tasks
+ * with headings, attendee lists and prose; this keeps the actionable parts, splits compound
+ * items ("buy milk and call mom") and records every discarded line with the reason.
+ *
+ * A line written as a plain note ("dentist appointment") is kept as is; only sentences (ending
+ * in . ! or ?) have to read as an action to survive, so one-task-per-line dumps are unaffected.
+ */
+
+import { captureEntries, type CapturedLine } from "./capture";
+
+export type DiscardReason = "heading" | "divider" | "metadata" | "greeting" | "sign-off" | "done" | "not-actionable";
+
+export const DISCARD_REASON_LABELS: Record<DiscardReason, string> = {
+  "heading": "Heading",
+  "divider": "Divider",
+  "metadata": "Meeting or email details",
+  "greeting": "Greeting",
+  "sign-off": "Sign-off or signature",
+  "done": "Already ticked off",
+  "not-actionable": "No action in this sentence",
+};
+
+export interface ExtractedItem {
+  text: string;
+  // The line it came from
+  source: string;
+  // Part of a compound line or of a paragraph with several sentences
+  split: boolean;
+  // The source line's group (see CapturedLine)
+  group: number;
+  // The source line's position in the text, shared by everything taken from that line
+  index: number;
+}
+
+export interface DiscardedLine {
+  // Cleaned up, ready to sort if the user keeps it after all
+  text: string;
+  source: string;
+  reason: DiscardReason;
+  group: number;
+  index: number;
+}
+
+export interface Extraction {
+  items: ExtractedItem[];
+  discarded: DiscardedLine[];
+}
+
+// Common imperative openings; a sentence starting with one of these is an action
+const ACTION_VERBS = new Set([
+  "add", "admit", "apply", "approve", "arrange", "ask", "assign", "attach", "attend", "audit", "back", "bake", "book",
+  "bring", "build", "buy", "calculate", "call", "cancel", "change", "check", "choose", "clean", "clear", "close",
+  "collect", "commit", "compare", "complete", "configure", "confirm", "contact", "cook", "copy", "create", "debug",
+  "decide", "delete", "deliver", "deploy", "design", "discuss", "do", "document", "download", "draft", "drop",
+  "edit", "email", "e-mail", "enable", "find", "finish", "fix", "follow", "get", "give", "go", "grab", "hire",
+  "implement", "import", "install", "invite", "investigate", "invoice", "learn", "look", "mail", "make", "meet",
+  "merge", "message", "migrate", "move", "order", "organize", "organise", "pack", "pay", "phone", "pick", "ping",
+  "plan", "post", "prepare", "print", "publish", "put", "read", "reach", "rebook", "record", "refactor", "register",
+  "release", "remind", "remove", "renew", "reply", "report", "request", "reschedule", "research", "reserve",
+  "respond", "return", "review", "revise", "rewrite", "run", "schedule", "send", "set", "settle", "share", "ship",
+  "sign", "sort", "start", "submit", "sync", "take", "talk", "test", "text", "tidy", "track", "try", "update",
+  "upgrade", "upload", "verify", "visit", "walk", "wash", "watch", "write",
+]);
+
+// "I need to", "Let's", "TODO:" … in front of the action itself
+const LEAD_IN = /^(?:(?:i|we|you)\s+(?:really\s+)?(?:need|have|ought|want)\s+to|(?:i|we)\s+(?:should|must|will|'ll)|i'll|we'll|need to|have to|must|should|remember to|don't forget to|do not forget to|make sure to|to-?do:?|action(?: item)?:|ai:|next step:|let's|lets|please|pls)\s+/i;
+const FILLER = /^(?:also|then|just|still|quickly|maybe)\s+/i;
+// "Anna will send …", "follow up", "TODO" anywhere in the sentence
+const ACTION_CUE = /\b(?:todo|to-do|action item|follow[- ]up|deadline|asap)\b|@\w+/i;
+const DELEGATED = /\b(?:will|'ll|to)\s+([a-z-]+)/gi;
+
+const METADATA_LABEL = /^(?:attendees|participants|present|absent|apologies|date|time|when|where|location|room|subject|from|to|cc|bcc|sent|re|fw|fwd|agenda|minutes|meeting|facilitator|note ?taker|recorded by|dial-in|zoom|link)\s*:/i;
+const GREETING = /^(?:hi|hello|hey|dear|morning|good (?:morning|afternoon|evening))\b[^.!?]{0,40}[,!:]?$/i;
+const SIGN_OFF = /^(?:thanks|thank you|thx|ty|cheers|best|best regards|kind regards|warm regards|regards|sincerely|talk soon|see you|sent from my \w+)\b[^?]{0,30}$/i;
+const SIGNATURE_DELIMITER = /^--\s*$/;
+// A sign-off this close to the end starts the signature: what follows is a name and contact details
+const SIGNATURE_MAX_LINES = 4;
+const MARKDOWN_HEADING = /^#{1,6}\s+/;
+const EMPHASIS_HEADING = /^(?:\*\*|__)[^*_]+(?:\*\*|__):?$/;
+// "Action items:", "Next steps:" — a short label with nothing after the colon
+const LABEL_HEADING = /^[^.!?:]{1,40}:$/;
+
+// Splits at "and", "then", "&", "," and ";" (the separators are kept so unsplit parts can be rejoined)
+const COMPOUND_SEPARATOR = /(\s*;\s*|,?\s+and then\s+|,?\s+and\s+|,?\s+then\s+|\s+&\s+|,\s*)/i;
+const SENTENCE_BOUNDARY = /(?<=[.!?])\s+(?=["'(\[]?[A-Z0-9])/;
+
+function firstWord(text: string): string {
+  return text.trim().split(/\s+/)[0]?.toLowerCase().replace(/[^a-z-]/g, "") ?? "";
+}
+
+function startsWithVerb(text: string): boolean {
+  return ACTION_VERBS.has(firstWord(text));
+}
+
+// Inline markdown: [label](url) → label, **bold** / __bold__ / `code` → plain
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/(\*\*|__|`)(.+?)\1/g, "$2")
+    .trim();
+}
+
+function stripLeadIn(text: string): { text: string; hadLeadIn: boolean } {
+  let stripped = text;
+  let hadLeadIn = false;
+  for (let match = stripped.match(LEAD_IN); match; match = stripped.match(LEAD_IN)) {
+    stripped = stripped.slice(match[0].length);
+    hadLeadIn = true;
+  }
+  return { text: stripped.replace(FILLER, ""), hadLeadIn };
+}
+
+function tidy(text: string): string {
+  const trimmed = text.replace(/[\s.;,]+$/, "").trim();
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+}
+
+/**
+ * "buy milk and call mom" → ["buy milk", "call mom"]. Only splits where both sides start with a
+ * verb, so "email Anna and Bob" or "buy milk, eggs and bread" stay whole.
+ */
+export function splitCompound(text: string): string[] {
+  const [first, ...rest] = text.split(COMPOUND_SEPARATOR);
+  if (!startsWithVerb(first)) return [text];
+
+  const parts: string[] = [];
+  let current = first;
+  for (let i = 0; i < rest.length; i += 2) {
+    const separator = rest[i];
+    const segment = stripLeadIn(rest[i + 1] ?? "").text;
+    if (startsWithVerb(segment)) {
+      parts.push(current);
+      current = segment;
+    } else {
+      current += separator + (rest[i + 1] ?? "");
+    }
+  }
+  parts.push(current);
+  return parts.map(tidy).filter(Boolean);
+}
+
+function isActionSentence(sentence: string): boolean {
+  const { text, hadLeadIn } = stripLeadIn(sentence);
+  if (hadLeadIn || startsWithVerb(text)) return true;
+  if (ACTION_CUE.test(sentence)) return true;
+  return [...sentence.matchAll(DELEGATED)].some(m => ACTION_VERBS.has(m[1].toLowerCase()));
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).length;
+}
+
+function isSignOff(text: string): boolean {
+  return SIGN_OFF.test(text) && wordCount(text) <= 4;
+}
+
+// `raw` still has its markdown; a bulleted bold phrase is a task, not a heading
+function classifyLine(raw: string, text: string, listItem: boolean): DiscardReason | null {
+  if (MARKDOWN_HEADING.test(raw) || LABEL_HEADING.test(text) || (!listItem && EMPHASIS_HEADING.test(raw))) return "heading";
+  if (METADATA_LABEL.test(text)) return "metadata";
+  if (GREETING.test(text) && wordCount(text) <= 5) return "greeting";
+  if (isSignOff(text)) return "sign-off";
+  return null;
+}
+
+export function extractActionItems(content: string): Extraction {
+  const items: ExtractedItem[] = [];
+  const discarded: DiscardedLine[] = [];
+  let inSignature = false;
+
+  const keep = (text: string, entry: CapturedLine, index: number, split: boolean) => {
+    const parts = splitCompound(text);
+    parts.forEach(part => items.push({ text: part, source: entry.source, split: split || parts.length > 1, group: entry.group, index }));
+  };
+  const discard = (text: string, entry: CapturedLine, index: number, reason: DiscardReason) => {
+    discarded.push({ text: text.trim(), source: entry.source, reason, group: entry.group, index });
+  };
+
+  const entries = captureEntries(content);
+  for (const [index, entry] of entries.entries()) {
+    const text = stripInlineMarkdown(entry.text);
+    // "Thanks,\nBob" ends the message like "--" does; a bulleted "thank you" is still a task list
+    const endsMessage = !entry.listItem && isSignOff(text) && entries.length - index - 1 <= SIGNATURE_MAX_LINES;
+    if (inSignature || endsMessage || SIGNATURE_DELIMITER.test(entry.source)) {
+      inSignature = true;
+      discard(text, entry, index, "sign-off");
+      continue;
+    }
+    if (entry.divider) {
+      discard(text, entry, index, "divider");
+      continue;
+    }
+    if (entry.done) {
+      discard(text, entry, index, "done");
+      continue;
+    }
+    const reason = classifyLine(entry.text, text, entry.listItem);
+    if (reason) {
+      discard(text, entry, index, reason);
+      continue;
+    }
+
+    // Notes and list items without sentence punctuation are tasks as written
+    if (!/[.!?]$/.test(text) && !SENTENCE_BOUNDARY.test(text)) {
+      keep(stripLeadIn(text).text, entry, index, false);
+      continue;
+    }
+
+    const sentences = text.split(SENTENCE_BOUNDARY).filter(s => s.trim());
+    for (const sentence of sentences) {
+      if (isActionSentence(sentence) && !/\?$/.test(sentence.trim())) {
+        keep(tidy(stripLeadIn(sentence).text), entry, index, sentences.length > 1);
+      } else {
+        discard(sentence, entry, index, "not-actionable");
+      }
+    }
+  }
+  return { items: items.filter(i => i.text), discarded };
+}
@@ -0,0 +1,166 @@
+/**
+ * Undo/redo for folder mutations. Each entry records the folders a command changed (before and
+ * after, with their positions), so undo and redo are exact and the stack stays small enough to persist.
+ */
+
+import { createPersistedDoc } from "./persistence";
+import type { Validation } from "./schemas";
+import { validateFolders } from "./store";
+import type { Folder } from "./types";
+
+const HISTORY_KEY = "flowlist-history";
+export const MAX_HISTORY = 50;
+
+export interface FolderChange {
+  id: string;
+  before: Folder | null;
+  after: Folder | null;
+  beforeIndex: number;
+  afterIndex: number;
+}
+
+export interface HistoryEntry {
+  label: string;
+  at: number;
+  changes: FolderChange[];
+}
+
+export interface FolderHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: FolderHistory = { past: [], future: [] };
+
+// Untouched folders keep their object identity, so only the rest need a deep comparison
+function sameFolder(a: Folder, b: Folder): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function diffFolders(prev: Folder[], next: Folder[]): FolderChange[] {
+  const prevIndex = new Map(prev.map((f, i) => [f.id, i]));
+  const nextIndex = new Map(next.map((f, i) => [f.id, i]));
+  const changes: FolderChange[] = [];
+
+  prev.forEach((before, beforeIndex) => {
+    const afterIndex = nextIndex.get(before.id);
+    const after = afterIndex === undefined ? null : next[afterIndex];
+    if (!after || !sameFolder(before, after)) {
+      changes.push({ id: before.id, before, after, beforeIndex, afterIndex: afterIndex ?? -1 });
+    }
+  });
+  next.forEach((after, afterIndex) => {
+    if (!prevIndex.has(after.id)) {
+      changes.push({ id: after.id, before: null, after, beforeIndex: -1, afterIndex });
+    }
+  });
+  return changes;
+}
+
+/**
+ * Swaps the changed folders back to one side of the entry. Unchanged folders keep their relative order,
+ * so re-inserting at the recorded positions (ascending) rebuilds that side exactly.
+ */
+export function applyChanges(folders: Folder[], changes: FolderChange[], direction: "undo" | "redo"): Folder[] {
+  const changed = new Set(changes.map(c => c.id));
+  const result = folders.filter(f => !changed.has(f.id));
+
+  const restore = changes
+    .map(c => direction === "undo" ? { folder: c.before, index: c.beforeIndex } : { folder: c.after, index: c.afterIndex })
+    .filter((r): r is { folder: Folder; index: number } => r.folder !== null)
+    .sort((a, b) => a.index - b.index);
+  for (const { folder, index } of restore) {
+    result.splice(index, 0, folder);
+  }
+  return result;
+}
+
+/**
+ * Pushes the difference between two states as one entry; a new command clears the redo stack
+ */
+export function recordEntry(history: FolderHistory, label: string, prev: Folder[], next: Folder[]): FolderHistory {
+  const changes = diffFolders(prev, next);
+  if (changes.length === 0) return history;
+  return {
+    past: [...history.past, { label, at: Date.now(), changes }].slice(-MAX_HISTORY),
+    future: [],
+  };
+}
+
+export function undoEntry(history: FolderHistory, folders: Folder[]): { history: FolderHistory; folders: Folder[] } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+    folders: applyChanges(folders, entry.changes, "undo"),
+  };
+}
+
+export function redoEntry(history: FolderHistory, folders: Folder[]): { history: FolderHistory; folders: Folder[] } | null {
+  const [entry, ...future] = history.future;
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future },
+    folders: applyChanges(folders, entry.changes, "redo"),
+  };
+}
+
+function isHistoryEntry(value: unknown): value is HistoryEntry {
+  const entry = value as HistoryEntry;
+  return typeof entry?.label === "string" && Array.isArray(entry.changes)
+    && entry.changes.every(c => typeof c?.id === "string" && typeof c.beforeIndex === "number" && typeof c.afterIndex === "number");
+}
+
+/**
+ * Undo and redo put an entry's folders straight on the board, so they get the store's checks.
+ * A folder that can't be repaired makes the whole entry unusable, since undo would apply it halfway.
+ */
+function sanitizeEntry(entry: HistoryEntry, errors: string[]): HistoryEntry | null {
+  const changes: FolderChange[] = [];
+  for (const change of entry.changes) {
+    const sanitize = (folder: Folder | null): Folder | null | undefined => {
+      if (folder === null) return null;
+      const result = validateFolders([folder]);
+      errors.push(...result.errors);
+      const valid = result.value?.[0];
+      return valid && { ...valid, id: change.id };
+    };
+    const before = sanitize(change.before);
+    const after = sanitize(change.after);
+    if (before === undefined || after === undefined) return null;
+    changes.push({ ...change, before, after });
+  }
+  return { ...entry, changes };
+}
+
+export function validateHistory(data: unknown): Validation<FolderHistory> {
+  const history = data as FolderHistory;
+  if (!Array.isArray(history?.past) || !Array.isArray(history.future)) {
+    return { value: null, errors: ["History is missing its stacks"] };
+  }
+  const errors: string[] = [];
+  const sanitize = (entries: unknown[]) => entries
+    .filter(isHistoryEntry)
+    .map(entry => sanitizeEntry(entry, errors))
+    .filter((entry): entry is HistoryEntry => entry !== null);
+  const past = sanitize(history.past).slice(-MAX_HISTORY);
+  const future = sanitize(history.future).slice(0, MAX_HISTORY);
+  const dropped = history.past.length + history.future.length - past.length - future.length;
+  if (dropped > 0) errors.push(`Dropped ${dropped} history entries`);
+  return { value: { past, future }, errors };
+}
+
+// Shared by the board and the deconstructor, like the folders themselves
+const historyDoc = createPersistedDoc<FolderHistory>({
+  key: HISTORY_KEY,
+  version: 1,
+  validate: validateHistory,
+});
+
+export async function loadHistory(): Promise<FolderHistory> {
+  return (await historyDoc.load()) ?? EMPTY_HISTORY;
+}
+
+export function saveHistory(history: FolderHistory): void {
+  historyDoc.save(history);
+}
@@ -0,0 +1,418 @@
+/**
+ * Importers for other task managers' exports. Each maps the app's projects/lists to folders,
+ * nesting to Task.children and completion to Task.completed; nothing is merged until the user
+ * confirms the preview.
+ */
+
+import type { Folder, Task } from "./types";
+
+export type ImportFormat = "todoist" | "ticktick" | "things" | "google-tasks" | "opml";
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  "todoist": "Todoist",
+  "ticktick": "TickTick",
+  "things": "Things",
+  "google-tasks": "Google Tasks",
+  "opml": "OPML outline",
+};
+
+export interface ImportPreview {
+  format: ImportFormat;
+  folders: Folder[];
+  warnings: string[];
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+const IMPORT_EXTENSIONS = /\.(csv|json|opml|xml)$/i;
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 11);
+}
+
+function makeTask(text: string, completed: boolean, children: Task[] = []): Task {
+  return { id: generateId(), text: text.replace(/\s+/g, " ").trim(), completed, children };
+}
+
+function makeFolder(name: string, tasks: Task[]): Folder {
+  return { id: generateId(), name: name.trim() || "Imported", tier: null, tasks, expanded: false };
+}
+
+function baseName(fileName: string): string {
+  return fileName.split("/").pop()!.replace(/\.[^.]+$/, "");
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function str(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+export function isImportFile(fileName: string): boolean {
+  return IMPORT_EXTENSIONS.test(fileName);
+}
+
+// ---------- Todoist (CSV project template) ----------
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === "\"" && text[i + 1] === "\"") { field += "\""; i++; }
+      else if (ch === "\"") quoted = false;
+      else field += ch;
+    } else if (ch === "\"") {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+/**
+ * Todoist exports one CSV per project (named after it). INDENT (1-based) gives the nesting and
+ * "section" rows start a new folder; notes are comments and are skipped.
+ */
+function parseTodoist(fileName: string, text: string): ImportPreview {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  const columns = (header ?? []).map(h => h.trim().toUpperCase());
+  const col = (name: string) => columns.indexOf(name);
+  const [typeCol, contentCol, indentCol] = [col("TYPE"), col("CONTENT"), col("INDENT")];
+  const completedCol = ["COMPLETED", "IS_COMPLETED", "CHECKED"].map(col).find(i => i !== -1) ?? -1;
+  if (contentCol === -1) throw new ImportError("This CSV has no CONTENT column, so it doesn't look like a Todoist export.");
+
+  const project = baseName(fileName);
+  const folders: Folder[] = [];
+  let current = makeFolder(project, []);
+  let stack: Task[] = [];
+  let notes = 0;
+
+  for (const row of rows) {
+    const type = typeCol === -1 ? "task" : row[typeCol]?.trim().toLowerCase();
+    const content = row[contentCol]?.trim() ?? "";
+    if (type === "note") { notes++; continue; }
+    if (type === "section") {
+      if (current.tasks.length > 0) folders.push(current);
+      current = makeFolder(`${project} / ${content}`, []);
+      stack = [];
+      continue;
+    }
+    if (type !== "task" || !content) continue;
+
+    const completed = completedCol !== -1 && /^(1|true|yes|x)$/i.test(row[completedCol]?.trim() ?? "");
+    // A leading "* " marks an uncompletable task (a heading) in Todoist
+    const task = makeTask(content.replace(/^\*\s+/, ""), completed);
+    const depth = Math.max(0, (parseInt(row[indentCol] ?? "1", 10) || 1) - 1);
+    stack.length = Math.min(stack.length, depth);
+    const parent = stack[stack.length - 1];
+    if (parent) parent.children.push(task);
+    else current.tasks.push(task);
+    stack.push(task);
+  }
+  if (current.tasks.length > 0 || folders.length === 0) folders.push(current);
+
+  const warnings = notes > 0 ? [`Skipped ${plural(notes, "comment")} (Todoist notes)`] : [];
+  return { format: "todoist", folders, warnings };
+}
+
+// ---------- Google Tasks (Takeout Tasks.json) ----------
+
+function parseGoogleTasks(data: Record<string, unknown>): ImportPreview {
+  const lists = Array.isArray(data.items) ? data.items.filter(isRecord) : [];
+  let deleted = 0;
+  let orphans = 0;
+
+  const folders = lists.map(list => {
+    const items = (Array.isArray(list.items) ? list.items.filter(isRecord) : [])
+      .filter(item => {
+        if (item.deleted === true) { deleted++; return false; }
+        return str(item.title).trim().length > 0;
+      })
+      // Position strings are zero-padded, so they sort lexically
+      .sort((a, b) => str(a.position).localeCompare(str(b.position)));
+
+    const tasks = new Map(items.map(item => [str(item.id), makeTask(str(item.title), item.status === "completed")]));
+    const roots: Task[] = [];
+    for (const item of items) {
+      const task = tasks.get(str(item.id))!;
+      const parent = item.parent ? tasks.get(str(item.parent)) : undefined;
+      if (item.parent && !parent) orphans++;
+      (parent ? parent.children : roots).push(task);
+    }
+    return makeFolder(str(list.title), roots);
+  });
+
+  const warnings: string[] = [];
+  if (deleted > 0) warnings.push(`Skipped ${plural(deleted, "deleted task")}`);
+  if (orphans > 0) warnings.push(`Kept ${plural(orphans, "subtask")} with a missing parent at the top level`);
+  return { format: "google-tasks", folders, warnings };
+}
+
+// ---------- TickTick (Open API project data / task list) ----------
+
+// A task without a title has nothing to show, but its subtasks do: they take its place
+function liftUntitled(tasks: Task[]): Task[] {
+  return tasks.flatMap(task => (task.text ? [{ ...task, children: liftUntitled(task.children) }] : liftUntitled(task.children)));
+}
+
+/**
+ * Accepts the Open API's `{ project, tasks }`, a `{ projects, tasks }` dump or a bare task array.
+ * Status 2 is completed; checklist items (status 1 = done) become subtasks.
+ */
+function parseTickTick(data: unknown): ImportPreview {
+  const record = isRecord(data) ? data : {};
+  const rawTasks = (Array.isArray(data) ? data : Array.isArray(record.tasks) ? record.tasks : []).filter(isRecord);
+  const projects = new Map<string, string>();
+  const projectList = [record.project, ...(Array.isArray(record.projects) ? record.projects : [])].filter(isRecord);
+  projectList.forEach(p => projects.set(str(p.id), str(p.name)));
+
+  const projectName = (item: Record<string, unknown>) => {
+    const id = str(item.projectId);
+    return projects.get(id) || str(item.projectName) || (id.startsWith("inbox") || !id ? "Inbox" : id);
+  };
+
+  const entries = rawTasks.map(item => {
+    const checklist = (Array.isArray(item.items) ? item.items : []).filter(isRecord)
+      .filter(sub => str(sub.title).trim())
+      .map(sub => makeTask(str(sub.title), sub.status === 1 || sub.status === 2));
+    return { item, task: makeTask(str(item.title), item.status === 2, checklist) };
+  });
+  const tasks = new Map(entries.map(({ item, task }) => [str(item.id), task]));
+
+  const byProject = new Map<string, Task[]>();
+  let orphans = 0;
+  for (const { item, task } of entries) {
+    const parent = item.parentId ? tasks.get(str(item.parentId)) : undefined;
+    if (item.parentId && !parent) orphans++;
+    if (parent) {
+      parent.children.push(task);
+      continue;
+    }
+    const name = projectName(item);
+    byProject.set(name, [...(byProject.get(name) ?? []), task]);
+  }
+
+  const folders = [...byProject]
+    .map(([name, roots]) => makeFolder(name, liftUntitled(roots)))
+    .filter(folder => folder.tasks.length > 0);
+  const warnings = orphans > 0 ? [`Kept ${plural(orphans, "subtask")} with a missing parent at the top level`] : [];
+  return { format: "ticktick", folders, warnings };
+}
+
+// ---------- Things (JSON, as used by the things:///json URL scheme) ----------
+
+interface ThingsItem {
+  type: string;
+  attributes: Record<string, unknown>;
+}
+
+function isThingsItem(value: unknown): value is ThingsItem {
+  return isRecord(value) && typeof value.type === "string" && isRecord(value.attributes);
+}
+
+function thingsToDo(item: ThingsItem): Task {
+  const checklist = (Array.isArray(item.attributes["checklist-items"]) ? item.attributes["checklist-items"] : [])
+    .filter(isThingsItem)
+    .map(c => makeTask(str(c.attributes.title), c.attributes.completed === true));
+  return makeTask(str(item.attributes.title), item.attributes.completed === true, checklist);
+}
+
+// Headings have no completion of their own; the to-dos after a heading (up to the next one) nest under it
+function thingsProjectTasks(items: ThingsItem[]): Task[] {
+  const tasks: Task[] = [];
+  let heading: Task | null = null;
+  for (const item of items) {
+    if (item.type === "heading") {
+      const children = (Array.isArray(item.attributes.items) ? item.attributes.items : []).filter(isThingsItem).map(thingsToDo);
+      heading = makeTask(str(item.attributes.title), false, children);
+      tasks.push(heading);
+    } else if (item.type === "to-do") {
+      (heading ? heading.children : tasks).push(thingsToDo(item));
+    }
+  }
+  for (const task of tasks) {
+    if (task.children.length > 0 && task.children.every(c => c.completed)) task.completed = true;
+  }
+  return tasks.filter(t => t.text);
+}
+
+function parseThings(items: ThingsItem[]): ImportPreview {
+  const folders: Folder[] = [];
+  const loose = new Map<string, Task[]>();
+  let skipped = 0;
+
+  for (const item of items) {
+    if (item.type === "project") {
+      const children = (Array.isArray(item.attributes.items) ? item.attributes.items : []).filter(isThingsItem);
+      folders.push(makeFolder(str(item.attributes.title), thingsProjectTasks(children)));
+    } else if (item.type === "to-do") {
+      // Loose to-dos name their project or area in "list"; otherwise they sit in the Inbox
+      const list = str(item.attributes.list) || "Inbox";
+      loose.set(list, [...(loose.get(list) ?? []), thingsToDo(item)]);
+    } else {
+      skipped++;
+    }
+  }
+  for (const [name, tasks] of loose) {
+    const project = folders.find(f => f.name === name);
+    if (project) project.tasks.push(...tasks);
+    else folders.push(makeFolder(name, tasks));
+  }
+
+  const warnings = skipped > 0 ? [`Skipped ${plural(skipped, "item")} other than projects and to-dos`] : [];
+  return { format: "things", folders, warnings };
+}
+
+// ---------- OPML ----------
+
+interface Outline {
+  text: string;
+  completed: boolean;
+  children: Outline[];
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    const named: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" };
+    if (entity[0] !== "#") return named[entity.toLowerCase()];
+    const codePoint = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    // Past the last Unicode code point there's no character to decode to, so the entity stays as written
+    return codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+/**
+ * OPML only needs <title> and nested <outline> elements, so a small tokenizer is enough and
+ * keeps this module free of DOM APIs
+ */
+function parseOutlines(text: string): { title: string; outlines: Outline[] } {
+  if (!/<opml[\s>]/i.test(text)) throw new ImportError("This file has no <opml> element.");
+  const title = decodeEntities(text.match(/<title>([\s\S]*?)<\/title>/i)?.[1]?.trim() ?? "");
+  const body = text.slice(Math.max(0, text.search(/<body[\s>]/i)));
+
+  const root: Outline = { text: "", completed: false, children: [] };
+  const stack: Outline[] = [root];
+  for (const match of body.matchAll(/<outline\b((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|<\/outline\s*>/gi)) {
+    if (match[0].startsWith("</")) {
+      if (stack.length > 1) stack.pop();
+      continue;
+    }
+    const attributes = parseAttributes(match[1]);
+    const outline: Outline = {
+      text: attributes.text ?? attributes.title ?? "",
+      // Workflowy and OmniOutliner mark done items with _complete, some tools with complete/checked
+      completed: [attributes._complete, attributes.complete, attributes.checked].some(v => v === "true"),
+      children: [],
+    };
+    stack[stack.length - 1].children.push(outline);
+    if (!match[2]) stack.push(outline);
+  }
+  return { title, outlines: root.children };
+}
+
+function outlineToTask(outline: Outline): Task {
+  return makeTask(outline.text, outline.completed, outline.children.filter(o => o.text.trim()).map(outlineToTask));
+}
+
+/**
+ * Top-level outlines with children become folders; top-level leaves share a folder named after
+ * the document. A single top-level outline is treated as the document root and unwrapped.
+ */
+function parseOpml(fileName: string, text: string): ImportPreview {
+  const { title, outlines } = parseOutlines(text);
+  const top = outlines.length === 1 && outlines[0].children.length > 0 ? outlines[0].children : outlines;
+  const documentName = (outlines.length === 1 ? outlines[0].text : "") || title || baseName(fileName);
+
+  const folders: Folder[] = [];
+  const leaves: Task[] = [];
+  for (const outline of top.filter(o => o.text.trim())) {
+    if (outline.children.length > 0) folders.push(makeFolder(outline.text, outlineToTask(outline).children));
+    else leaves.push(outlineToTask(outline));
+  }
+  if (leaves.length > 0) folders.push(makeFolder(documentName, leaves));
+  return { format: "opml", folders, warnings: [] };
+}
+
+// ---------- Detection ----------
+
+function parseJson(fileName: string, text: string): ImportPreview {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ""));
+  } catch {
+    throw new ImportError(`${fileName} isn't valid JSON.`);
+  }
+
+  if (isRecord(data) && (data.kind === "tasks#taskLists" || (Array.isArray(data.items) && data.items.some(i => isRecord(i) && i.kind === "tasks#taskList")))) {
+    return parseGoogleTasks(data);
+  }
+  const thingsItems = isRecord(data) && Array.isArray(data.items) ? data.items : data;
+  if (Array.isArray(thingsItems) && thingsItems.length > 0 && thingsItems.every(isThingsItem)) {
+    return parseThings(thingsItems);
+  }
+  const tasks = Array.isArray(data) ? data : isRecord(data) ? data.tasks : null;
+  if (Array.isArray(tasks) && tasks.some(t => isRecord(t) && "title" in t && ("projectId" in t || "status" in t))) {
+    return parseTickTick(data);
+  }
+  throw new ImportError(`${fileName} isn't a Google Tasks, Things or TickTick export.`);
+}
+
+/**
+ * Parses an export into folders for preview. The format is picked from the extension and, for
+ * JSON, the document's shape. Throws ImportError when the file isn't a supported export.
+ */
+export function parseImport(fileName: string, text: string): ImportPreview {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  const preview = extension === "csv" ? parseTodoist(fileName, text)
+    : extension === "json" ? parseJson(fileName, text)
+    : extension === "opml" || extension === "xml" ? parseOpml(fileName, text)
+    : null;
+  if (!preview) throw new ImportError(`${fileName} isn't a supported export (.csv, .json or .opml).`);
+
+  const empty = preview.folders.filter(f => f.tasks.length === 0).length;
+  const folders = preview.folders.filter(f => f.tasks.length > 0);
+  if (folders.length === 0) throw new ImportError(`No tasks found in ${fileName}.`);
+  const warnings = empty > 0 ? [...preview.warnings, `Skipped ${plural(empty, "empty list")}`] : preview.warnings;
+  return { ...preview, folders, warnings };
+}
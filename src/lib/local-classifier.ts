@@ -0,0 +1,164 @@
+/**
+ * Offline bucket classifier: keyword rules plus a multinomial naive Bayes model
+ * trained on the user's own folders. Deterministic, no network, used when the AI provider is unavailable.
+ */
+
+import { collectTaskRefs, taskTokens } from "./dedup";
+import type { Folder, SortResponse } from "./types";
+
+export type PredictionSource = "model" | "rules" | "default";
+
+export interface LocalPrediction {
+  text: string;
+  bucket: string;
+  confidence: number;
+  source: PredictionSource;
+}
+
+export const DEFAULT_BUCKET = "Inbox";
+
+// Trust the trained model over the rules once it's this sure
+const MODEL_CONFIDENCE = 0.6;
+const MIN_TRAINING_TASKS = 5;
+
+// Checked in order; the first bucket with the most hits wins a tie
+const KEYWORD_RULES: [string, string[]][] = [
+  ["Health", ["doctor", "dentist", "gym", "workout", "run", "meds", "medicine", "pharmacy", "therapy", "appointment", "checkup", "vitamin", "yoga"]],
+  ["Finance", ["pay", "bill", "tax", "taxes", "invoice", "bank", "budget", "rent", "insurance", "refund", "subscription", "transfer", "expense"]],
+  ["Work", ["meeting", "email", "report", "deadline", "client", "presentation", "slides", "proposal", "standup", "boss", "manager", "team"]],
+  ["Coding", ["bug", "deploy", "refactor", "code", "api", "test", "repo", "pr", "merge", "build", "release", "database", "server"]],
+  ["Errands", ["buy", "pick", "groceries", "store", "return", "drop", "mail", "post", "order", "shop", "package"]],
+  ["Home", ["clean", "laundry", "dishes", "repair", "vacuum", "trash", "garden", "plant", "furniture", "kitchen", "sink"]],
+  ["Social", ["call", "text", "birthday", "party", "dinner", "friend", "mom", "dad", "family", "gift", "visit", "wedding"]],
+  ["Learning", ["read", "learn", "course", "study", "book", "tutorial", "lecture", "practice", "research"]],
+];
+
+interface BucketStats {
+  name: string;
+  docs: number;
+  tokenCounts: Map<string, number>;
+  totalTokens: number;
+}
+
+export interface LocalClassifier {
+  trainedOn: number;
+  classify(text: string): LocalPrediction;
+  classifyBatch(lines: string[]): SortResponse;
+}
+
+// Keywords go through the same tokenizer as task text so plurals line up
+const RULE_TOKENS: [string, Set<string>][] = KEYWORD_RULES.map(([bucket, keywords]) =>
+  [bucket, new Set(keywords.flatMap(taskTokens))]
+);
+
+function ruleBucket(tokens: string[]): string | null {
+  let best: string | null = null;
+  let bestHits = 0;
+  for (const [bucket, keywords] of RULE_TOKENS) {
+    const hits = tokens.filter(t => keywords.has(t)).length;
+    if (hits > bestHits) {
+      best = bucket;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+/**
+ * Trains on every task (at every depth) in the given folders, labelled with its folder name
+ */
+export function trainLocalClassifier(folders: Folder[]): LocalClassifier {
+  const stats = new Map<string, BucketStats>();
+  const vocabulary = new Set<string>();
+  let totalDocs = 0;
+
+  for (const ref of collectTaskRefs(folders)) {
+    const tokens = taskTokens(ref.text);
+    if (tokens.length === 0) continue;
+
+    let bucket = stats.get(ref.folderName);
+    if (!bucket) {
+      bucket = { name: ref.folderName, docs: 0, tokenCounts: new Map(), totalTokens: 0 };
+      stats.set(ref.folderName, bucket);
+    }
+    bucket.docs++;
+    totalDocs++;
+    for (const token of tokens) {
+      bucket.tokenCounts.set(token, (bucket.tokenCounts.get(token) ?? 0) + 1);
+      bucket.totalTokens++;
+      vocabulary.add(token);
+    }
+  }
+
+  // Map rule buckets onto the user's own folder names where they match case-insensitively
+  const folderNames = new Map(folders.map(f => [f.name.toLowerCase(), f.name]));
+  const buckets = Array.from(stats.values()).sort((a, b) => a.name.localeCompare(b.name));
+
+  // Posterior over trained buckets via Laplace-smoothed log probabilities
+  const posterior = (tokens: string[]): { name: string; p: number } | null => {
+    if (totalDocs < MIN_TRAINING_TASKS || buckets.length === 0) return null;
+    const known = tokens.filter(t => vocabulary.has(t));
+    if (known.length === 0) return null;
+
+    const scores = buckets.map(b => {
+      let logP = Math.log(b.docs / totalDocs);
+      for (const token of known) {
+        logP += Math.log(((b.tokenCounts.get(token) ?? 0) + 1) / (b.totalTokens + vocabulary.size));
+      }
+      return logP;
+    });
+    const max = Math.max(...scores);
+    const exp = scores.map(s => Math.exp(s - max));
+    const sum = exp.reduce((a, b) => a + b, 0);
+    const bestIndex = exp.indexOf(Math.max(...exp));
+    return { name: buckets[bestIndex].name, p: exp[bestIndex] / sum };
+  };
+
+  const classify = (text: string): LocalPrediction => {
+    const tokens = taskTokens(text);
+    const model = posterior(tokens);
+    if (model && model.p >= MODEL_CONFIDENCE) {
+      return { text, bucket: model.name, confidence: model.p, source: "model" };
+    }
+
+    const rule = ruleBucket(tokens);
+    if (rule) {
+      return { text, bucket: folderNames.get(rule.toLowerCase()) ?? rule, confidence: 0.5, source: "rules" };
+    }
+
+    if (model) {
+      return { text, bucket: model.name, confidence: model.p, source: "model" };
+    }
+    return { text, bucket: DEFAULT_BUCKET, confidence: 0, source: "default" };
+  };
+
+  return {
+    trainedOn: totalDocs,
+    classify,
+    classifyBatch: (lines) => ({ tasks: lines.map(line => ({ text: line, bucket: classify(line).bucket })) }),
+  };
+}
+
+export interface ClassifierComparison {
+  total: number;
+  agreed: number;
+  disagreements: { text: string; llmBucket: string; localBucket: string; source: PredictionSource }[];
+}
+
+/**
+ * Scores the local classifier against LLM assignments (bucket names compared case-insensitively)
+ */
+export function compareWithLocal(classifier: LocalClassifier, llmResult: SortResponse): ClassifierComparison {
+  const disagreements: ClassifierComparison["disagreements"] = [];
+  for (const item of llmResult.tasks) {
+    const local = classifier.classify(item.text);
+    if (local.bucket.toLowerCase() !== item.bucket.toLowerCase()) {
+      disagreements.push({ text: item.text, llmBucket: item.bucket, localBucket: local.bucket, source: local.source });
+    }
+  }
+  return {
+    total: llmResult.tasks.length,
+    agreed: llmResult.tasks.length - disagreements.length,
+    disagreements,
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Incremental parser for the deconstruct milestones payload.
+ * Feeds on raw model tokens and emits each milestone and step as soon as it is complete.
+ */
+
+import { MAX_MILESTONES, MAX_STEPS_PER_MILESTONE } from './schemas';
+import type { DeconstructStreamEvent } from './types';
+
+type Frame =
+    | { kind: 'object'; key: string | null; awaitingKey: boolean }
+    | { kind: 'array'; index: number };
+
+type Path = (string | number)[];
+
+interface MilestoneState {
+    title?: string;
+    why?: string;
+    emitted: boolean;
+    steps: number;
+}
+
+const LITERAL_CHAR = /[\w.+-]/;
+const STEP_OBJECT_KEYS = ['text', 'step', 'title'];
+
+function parseLiteral(raw: string): unknown {
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return raw;
+    }
+}
+
+function decodeString(raw: string): string {
+    try {
+        return JSON.parse(`"${raw}"`);
+    } catch {
+        return raw;
+    }
+}
+
+export class MilestoneStreamParser {
+    private started = false;
+    private finished = false;
+    private stack: Frame[] = [];
+    private inString = false;
+    private escaped = false;
+    private inLiteral = false;
+    private buffer = '';
+    private milestones: MilestoneState[] = [];
+    private events: DeconstructStreamEvent[] = [];
+
+    push(chunk: string): DeconstructStreamEvent[] {
+        for (const ch of chunk) this.consume(ch);
+        return this.events.splice(0);
+    }
+
+    private consume(ch: string) {
+        if (this.finished) return;
+
+        // Skip any chatter before the JSON starts
+        if (!this.started) {
+            if (ch === '{') {
+                this.started = true;
+                this.open('object');
+            }
+            return;
+        }
+
+        if (this.inString) {
+            if (this.escaped) {
+                this.buffer += ch;
+                this.escaped = false;
+            } else if (ch === '\\') {
+                this.buffer += ch;
+                this.escaped = true;
+            } else if (ch === '"') {
+                this.inString = false;
+                this.onString(decodeString(this.buffer));
+            } else {
+                this.buffer += ch;
+            }
+            return;
+        }
+
+        if (this.inLiteral) {
+            if (LITERAL_CHAR.test(ch)) {
+                this.buffer += ch;
+                return;
+            }
+            this.inLiteral = false;
+            this.onValue(parseLiteral(this.buffer));
+        }
+
+        const top = this.stack[this.stack.length - 1];
+        switch (ch) {
+            case '"':
+                this.inString = true;
+                this.buffer = '';
+                break;
+            case '{':
+                this.open('object');
+                break;
+            case '[':
+                this.open('array');
+                break;
+            case '}':
+            case ']':
+                this.close();
+                break;
+            case ':':
+                if (top?.kind === 'object') top.awaitingKey = false;
+                break;
+            case ',':
+                if (top?.kind === 'object') {
+                    top.key = null;
+                    top.awaitingKey = true;
+                } else if (top?.kind === 'array') {
+                    top.index++;
+                }
+                break;
+            default:
+                if (LITERAL_CHAR.test(ch)) {
+                    this.inLiteral = true;
+                    this.buffer = ch;
+                }
+        }
+    }
+
+    private path(): Path {
+        return this.stack.map(frame => frame.kind === 'object' ? frame.key ?? '' : frame.index);
+    }
+
+    private open(kind: Frame['kind']) {
+        const path = this.path();
+        this.stack.push(kind === 'object' ? { kind, key: null, awaitingKey: true } : { kind, index: 0 });
+
+        // Announce a milestone as soon as its steps start, so the header shows before the first step
+        if (kind === 'array' && path.length === 3 && path[0] === 'milestones' && path[2] === 'steps') {
+            this.ensureMilestone(path[1] as number);
+        } else if (kind === 'array' && path.length === 1 && path[0] === 'steps') {
+            this.ensureFlatMilestone();
+        }
+    }
+
+    private close() {
+        this.stack.pop();
+        if (this.stack.length === 0) this.finished = true;
+    }
+
+    private onString(value: string) {
+        const top = this.stack[this.stack.length - 1];
+        if (top?.kind === 'object' && top.awaitingKey) {
+            top.key = value;
+            return;
+        }
+        this.onValue(value);
+    }
+
+    private onValue(value: unknown) {
+        const path = this.path();
+        const text = typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : null;
+        if (text === null) return;
+
+        if (path[0] === 'milestones' && typeof path[1] === 'number') {
+            const index = path[1];
+            if (path.length === 3 && (path[2] === 'title' || path[2] === 'why')) {
+                this.milestone(index)[path[2]] = text;
+            } else if (path[2] === 'steps' && typeof path[3] === 'number') {
+                // Steps are plain strings, or {"text": ...} objects from chattier models
+                if (path.length === 4 || (path.length === 5 && STEP_OBJECT_KEYS.includes(String(path[4])))) {
+                    this.emitStep(index, text);
+                }
+            }
+        } else if (path.length === 2 && path[0] === 'steps' && typeof path[1] === 'number') {
+            this.emitStep(0, text);
+        }
+    }
+
+    private milestone(index: number): MilestoneState {
+        if (!this.milestones[index]) this.milestones[index] = { emitted: false, steps: 0 };
+        return this.milestones[index];
+    }
+
+    private ensureMilestone(index: number): boolean {
+        if (index >= MAX_MILESTONES) return false;
+        const state = this.milestone(index);
+        if (state.emitted) return true;
+        if (!state.title) return false;
+
+        state.emitted = true;
+        this.events.push({ type: 'milestone', index, title: state.title, why: state.why ?? '' });
+        return true;
+    }
+
+    // The old flat {"steps": [...]} shape is streamed as a single synthetic milestone
+    private ensureFlatMilestone() {
+        const state = this.milestone(0);
+        state.title ??= 'Complete task';
+        state.why ??= 'Get it done';
+        this.ensureMilestone(0);
+    }
+
+    private emitStep(milestoneIndex: number, text: string) {
+        if (!text || !this.ensureMilestone(milestoneIndex)) return;
+        const state = this.milestone(milestoneIndex);
+        if (state.steps >= MAX_STEPS_PER_MILESTONE) return;
+        this.events.push({ type: 'step', milestone: milestoneIndex, index: state.steps++, text });
+    }
+}
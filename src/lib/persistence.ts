@@ -0,0 +1,256 @@
+/**
+ * Versioned documents in IndexedDB. Each key holds { version, savedAt, data }: older documents are
+ * migrated forward on load, unreadable ones are backed up and reported instead of silently dropped,
+ * and writes are debounced and skipped when nothing changed.
+ */
+
+import { del, get, set } from "idb-keyval";
+import type { Validation } from "./schemas";
+
+const DEFAULT_DEBOUNCE_MS = 300;
+
+export type PersistenceIssueKind = "quota" | "corrupt" | "newer-version" | "unavailable" | "write-failed";
+
+export interface PersistenceIssue {
+  kind: PersistenceIssueKind;
+  key: string;
+  message: string;
+  // Where the unreadable document was copied before it was replaced
+  backupKey?: string;
+}
+
+interface StoredDocument {
+  version: number;
+  savedAt: number;
+  data: unknown;
+}
+
+// Upgrades the data of a version-n document to version n + 1
+export type Migration = (data: unknown) => unknown;
+
+export interface PersistedDocOptions<T> {
+  key: string;
+  version: number;
+  // migrations[n] takes version n to n + 1. Version 0 is whatever was stored before versioning.
+  migrations?: Record<number, Migration>;
+  validate: (data: unknown) => Validation<T>;
+  debounceMs?: number;
+}
+
+export interface PersistedDoc<T> {
+  // Resolves undefined when nothing usable is stored
+  load(): Promise<T | undefined>;
+  // Debounced; an identical value to the last one written is skipped
+  save(value: T): void;
+  // Writes immediately and reports whether it landed
+  saveNow(value: T): Promise<boolean>;
+  flush(): Promise<void>;
+  // Drops any pending write and deletes the key
+  clear(): Promise<void>;
+}
+
+class NewerVersionError extends Error {}
+
+const listeners = new Set<(issue: PersistenceIssue) => void>();
+
+/**
+ * Subscribes to storage problems (quota, corruption, ...); returns the unsubscribe function
+ */
+export function onPersistenceIssue(listener: (issue: PersistenceIssue) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function reportPersistenceIssue(issue: PersistenceIssue) {
+  console.warn(`Storage issue (${issue.kind}) for ${issue.key}: ${issue.message}`);
+  listeners.forEach(listener => listener(issue));
+}
+
+export function isQuotaError(error: unknown): boolean {
+  const { name, message } = (error ?? {}) as { name?: string; message?: string };
+  return name === "QuotaExceededError" || name === "NS_ERROR_DOM_QUOTA_REACHED" || /quota/i.test(message ?? "");
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Brings a stored value up to `version`. Documents written before the envelope existed
+ * carry their payload at the top level; anything without a numeric version is version 0.
+ */
+export function migrateDocument(
+  raw: unknown,
+  version: number,
+  migrations: Record<number, Migration> = {}
+): { data: unknown; from: number } {
+  const doc = raw as Partial<StoredDocument> | null;
+  const isVersioned = typeof doc === "object" && doc !== null && !Array.isArray(doc) && typeof doc.version === "number";
+  const from = isVersioned ? doc.version! : 0;
+  let data = isVersioned && "data" in doc ? doc.data : raw;
+
+  if (from > version) {
+    throw new NewerVersionError(`Saved by a newer version of the app (v${from}, this build reads v${version})`);
+  }
+  for (let v = from; v < version; v++) {
+    const migrate = migrations[v];
+    if (!migrate) throw new Error(`No migration from v${v}`);
+    data = migrate(data);
+  }
+  return { data, from };
+}
+
+export function createPersistedDoc<T>(options: PersistedDocOptions<T>): PersistedDoc<T> {
+  const { key, version, migrations, validate, debounceMs = DEFAULT_DEBOUNCE_MS } = options;
+
+  let lastWritten: string | undefined;
+  let pending: { value: T } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+  let listening = false;
+
+  const write = async (value: T): Promise<boolean> => {
+    const serialized = JSON.stringify(value);
+    if (serialized === lastWritten) return true;
+
+    try {
+      const doc: StoredDocument = { version, savedAt: Date.now(), data: value };
+      await set(key, doc);
+      lastWritten = serialized;
+      return true;
+    } catch (error) {
+      reportPersistenceIssue(isQuotaError(error)
+        ? { kind: "quota", key, message: "Browser storage is full; recent changes were not saved" }
+        : { kind: "write-failed", key, message: errorMessage(error) });
+      return false;
+    }
+  };
+
+  // Writes run one at a time so an older value can never land after a newer one
+  const enqueue = (value: T): Promise<boolean> => {
+    const result = queue.then(() => write(value));
+    queue = result;
+    return result;
+  };
+
+  const flush = async () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (pending) {
+      const { value } = pending;
+      pending = null;
+      enqueue(value);
+    }
+    await queue;
+  };
+
+  // Don't lose the last debounced change when the tab is closed or hidden
+  const listen = () => {
+    if (listening || typeof window === "undefined") return;
+    listening = true;
+    window.addEventListener("pagehide", () => void flush());
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "hidden") void flush();
+    });
+  };
+
+  const backup = async (raw: unknown): Promise<string | undefined> => {
+    const backupKey = `${key}:backup:${Date.now()}`;
+    try {
+      await set(backupKey, raw);
+      return backupKey;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const load = async (): Promise<T | undefined> => {
+    // A change still waiting to be written is newer than what's on disk
+    await flush();
+
+    let raw: unknown;
+    try {
+      raw = await get(key);
+    } catch (error) {
+      reportPersistenceIssue({ kind: "unavailable", key, message: errorMessage(error) });
+      return undefined;
+    }
+    if (raw === undefined) return undefined;
+
+    try {
+      const { data, from } = migrateDocument(raw, version, migrations);
+      const result = validate(data);
+      if (result.value === null) {
+        throw new Error(result.errors.slice(0, 3).join("; ") || "Unreadable document");
+      }
+
+      if (result.errors.length > 0) {
+        reportPersistenceIssue({
+          kind: "corrupt",
+          key,
+          message: `Recovered with ${result.errors.length} problem(s): ${result.errors.slice(0, 3).join("; ")}`,
+          backupKey: await backup(raw),
+        });
+      }
+
+      if (from !== version || result.errors.length > 0) {
+        await enqueue(result.value);
+      } else {
+        lastWritten = JSON.stringify(result.value);
+      }
+      return result.value;
+    } catch (error) {
+      reportPersistenceIssue({
+        kind: error instanceof NewerVersionError ? "newer-version" : "corrupt",
+        key,
+        message: errorMessage(error),
+        backupKey: await backup(raw),
+      });
+      return undefined;
+    }
+  };
+
+  return {
+    load,
+    save(value: T) {
+      listen();
+      pending = { value };
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => void flush(), debounceMs);
+    },
+    saveNow: async (value: T) => {
+      pending = null;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      return enqueue(value);
+    },
+    flush,
+    clear: async () => {
+      pending = null;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      const result = queue.then(async () => {
+        try {
+          await del(key);
+          lastWritten = undefined;
+        } catch (error) {
+          reportPersistenceIssue({ kind: "write-failed", key, message: errorMessage(error) });
+        }
+      });
+      queue = result;
+      await result;
+    },
+  };
+}
+
+/**
+ * Validator for arrays of records: keeps the well-formed items and reports how many were dropped
+ */
+export function validateList<T>(data: unknown, isItem: (item: unknown) => item is T, label: string): Validation<T[]> {
+  if (!Array.isArray(data)) return { value: null, errors: [`${label} is not a list`] };
+  const value = data.filter(isItem);
+  const dropped = data.length - value.length;
+  return { value, errors: dropped > 0 ? [`Dropped ${dropped} malformed ${label}`] : [] };
+}
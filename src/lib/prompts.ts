@@ -0,0 +1,171 @@
+/**
+ * Prompt registry: every prompt the app sends, as named, versioned templates.
+ * Templates use {{variable}} placeholders filled by the caller. Old versions stay registered so a
+ * request can pin one and two versions can be compared on the same input.
+ */
+
+export type PromptName = 'sort' | 'deconstruct';
+
+export interface PromptTemplate {
+    name: PromptName;
+    version: string;
+    description: string;
+    template: string;
+}
+
+// What GET /api/prompts lists
+export interface PromptInfo {
+    name: PromptName;
+    version: string;
+    description: string;
+    variables: string[];
+    isDefault: boolean;
+}
+
+/**
+ * Thrown for a prompt name/version that isn't registered
+ */
+export class PromptNotFoundError extends Error {
+    constructor(name: string, version: string) {
+        super(`Unknown prompt version: ${name}@${version}`);
+        this.name = 'PromptNotFoundError';
+    }
+}
+
+/**
+ * Thrown when a template placeholder has no value
+ */
+export class PromptVariableError extends Error {
+    constructor(prompt: PromptTemplate, variable: string) {
+        super(`Missing variable "${variable}" for prompt ${prompt.name}@${prompt.version}`);
+        this.name = 'PromptVariableError';
+    }
+}
+
+const SORT_TAIL = `
+
+{{buckets}}{{examples}}
+
+Tasks:
+{{tasks}}`;
+
+const PROMPTS: PromptTemplate[] = [
+    {
+        name: 'sort',
+        version: 'v1',
+        description: 'Short instructions, 1-2 word bucket names',
+        template: `Categorize tasks into buckets. Return ONLY valid JSON, no extra text.
+
+Format: {"tasks": [{"text": "task text", "bucket": "BucketName"}]}
+
+Rules:
+- Use existing buckets when appropriate
+- Bucket names: 1-2 words, actionable
+- Group similar tasks together${SORT_TAIL}`,
+    },
+    {
+        name: 'sort',
+        version: 'v2',
+        description: 'Expert-organizer framing, one-word buckets with examples',
+        template: `You are an expert organizer. Analyze the given tasks and categorize them.
+
+RULES:
+1. Assign each task to an existing bucket if one fits well
+2. Create new specific, one-word buckets only when necessary (e.g., 'Health', 'Coding', 'Errands', 'Finance', 'Social')
+3. Be consistent - use existing buckets when possible
+4. Keep bucket names simple and actionable
+
+Return ONLY a valid JSON object with this exact structure:
+{
+  "tasks": [
+    { "text": "the original task text", "bucket": "BucketName" }
+  ]
+}
+
+Do not include any explanation or markdown, only the JSON.${SORT_TAIL}`,
+    },
+    {
+        name: 'deconstruct',
+        version: 'v1',
+        description: '2-3 milestones with up to 3 three-minute steps each',
+        template: `You are a productivity expert. Break down the given task into 2-3 KEY MILESTONES, each with 2-3 actionable baby steps.
+
+STRUCTURE:
+- Each MILESTONE is a significant checkpoint (the "what")
+- Each STEP under a milestone takes MAX 3 minutes (the "how")
+- Include the "why" for each milestone
+
+RULES:
+1. Maximum 3 milestones per task
+2. Maximum 3 steps per milestone
+3. Steps must be specific and actionable (start with a verb)
+4. Milestones should feel like achievements when completed
+
+Return ONLY valid JSON:
+{
+  "milestones": [
+    {
+      "title": "Milestone 1 title",
+      "why": "Brief reason this milestone matters",
+      "steps": ["Step 1", "Step 2", "Step 3"]
+    }
+  ]
+}
+
+Task to break down:{{context}}
+"{{task}}"`,
+    },
+];
+
+const DEFAULT_VERSIONS: Record<PromptName, string> = {
+    sort: 'v1',
+    deconstruct: 'v1',
+};
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+export function templateVariables(template: string): string[] {
+    return [...new Set([...template.matchAll(PLACEHOLDER)].map(m => m[1]))];
+}
+
+/**
+ * The registered template for `name`, at `version` or the default one
+ */
+export function getPrompt(name: PromptName, version?: string): PromptTemplate {
+    const wanted = version || DEFAULT_VERSIONS[name];
+    const prompt = PROMPTS.find(p => p.name === name && p.version === wanted);
+    if (!prompt) throw new PromptNotFoundError(name, wanted);
+    return prompt;
+}
+
+export function listPrompts(name?: PromptName): PromptInfo[] {
+    return PROMPTS
+        .filter(p => !name || p.name === name)
+        .map(p => ({
+            name: p.name,
+            version: p.version,
+            description: p.description,
+            variables: templateVariables(p.template),
+            isDefault: DEFAULT_VERSIONS[p.name] === p.version,
+        }));
+}
+
+/**
+ * Fills every {{variable}}. An empty string is a valid value; a missing one is an error.
+ */
+export function renderPrompt(prompt: PromptTemplate, variables: Record<string, string>): string {
+    return prompt.template.replace(PLACEHOLDER, (_, variable: string) => {
+        const value = variables[variable];
+        if (value === undefined) throw new PromptVariableError(prompt, variable);
+        return value;
+    });
+}
+
+/**
+ * Reads an optional version from an untrusted request body; undefined means the default
+ */
+export function parsePromptVersion(name: PromptName, value: unknown): string | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string') throw new PromptNotFoundError(name, String(value));
+    return getPrompt(name, value).version;
+}
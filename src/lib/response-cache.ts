@@ -0,0 +1,92 @@
+/**
+ * Content-addressed cache for validated AI answers, stored as one JSON file per entry.
+ * Keys hash the prompt, provider, model and (for sorting) the set of existing buckets, so
+ * re-importing the same dump or breaking down the same task again doesn't pay for a second call.
+ * The cache never fails a request: read and write errors are logged and treated as a miss.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+export interface CacheKeyParts {
+    kind: 'sort' | 'deconstruct';
+    provider: string;
+    model: string;
+    prompt: string;
+    // Order doesn't matter: the same buckets in another order hit the same entry
+    buckets?: string[];
+}
+
+export interface ResponseCache {
+    get<T>(key: string): Promise<T | undefined>;
+    set<T>(key: string, value: T): Promise<void>;
+}
+
+interface CacheEntry<T> {
+    expiresAt: number;
+    value: T;
+}
+
+const DEFAULT_CACHE_DIR = '.cache/ai-responses';
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+export function cacheKey(parts: CacheKeyParts): string {
+    const buckets = parts.buckets ? [...new Set(parts.buckets)].sort() : undefined;
+    return createHash('sha256')
+        .update(JSON.stringify({ ...parts, buckets }))
+        .digest('hex');
+}
+
+function cacheDir(): string {
+    return path.resolve(process.env.AI_CACHE_DIR || DEFAULT_CACHE_DIR);
+}
+
+function ttlMs(): number {
+    const hours = Number(process.env.AI_CACHE_TTL_HOURS ?? DEFAULT_TTL_HOURS);
+    return Number.isFinite(hours) && hours > 0 ? hours * 3600000 : 0;
+}
+
+function entryPath(key: string): string {
+    return path.join(cacheDir(), `${key}.json`);
+}
+
+/**
+ * The file cache, configured by AI_CACHE_DIR and AI_CACHE_TTL_HOURS (0 turns it off).
+ * With `bypass`, lookups always miss but fresh answers are still stored for next time.
+ */
+export function getResponseCache(options: { bypass?: boolean } = {}): ResponseCache {
+    const ttl = ttlMs();
+
+    return {
+        async get<T>(key: string) {
+            if (ttl === 0 || options.bypass) return undefined;
+            try {
+                const entry: CacheEntry<T> = JSON.parse(await readFile(entryPath(key), 'utf8'));
+                if (entry.expiresAt > Date.now()) return entry.value;
+                await rm(entryPath(key), { force: true });
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                    console.warn('Response cache read failed:', error);
+                }
+            }
+            return undefined;
+        },
+
+        async set<T>(key: string, value: T) {
+            if (ttl === 0) return;
+            const entry: CacheEntry<T> = { expiresAt: Date.now() + ttl, value };
+            // Written under a temporary name first so a concurrent read never sees half a file
+            const target = entryPath(key);
+            const temp = `${target}.${process.pid}.${Math.random().toString(36).substring(2, 8)}.tmp`;
+            try {
+                await mkdir(cacheDir(), { recursive: true });
+                await writeFile(temp, JSON.stringify(entry), 'utf8');
+                await rename(temp, target);
+            } catch (error) {
+                console.warn('Response cache write failed:', error);
+                await rm(temp, { force: true }).catch(() => undefined);
+            }
+        },
+    };
+}
@@ -0,0 +1,162 @@
+/**
+ * Shared retry/backoff for AI provider calls.
+ * Jittered exponential backoff, status-based classification, Retry-After and AbortSignal support.
+ */
+
+export interface RetryPolicy {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    // Total wall-clock time a call may spend including waits; 0 = unlimited
+    budgetMs: number;
+    // Fraction of each delay that is randomized (0 = none, 1 = full jitter)
+    jitter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 2000,
+    maxDelayMs: 15000,
+    budgetMs: 0,
+    jitter: 0.5,
+};
+
+interface RetryOptions extends Partial<RetryPolicy> {
+    signal?: AbortSignal;
+    label?: string;
+}
+
+interface ErrorClassification {
+    retryable: boolean;
+    retryAfterMs?: number;
+}
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429]);
+const NETWORK_ERROR_PATTERN = /timeout|timed out|fetch failed|ETIMEDOUT|ECONNRESET|ECONNREFUSED|EAI_AGAIN|socket hang up/i;
+
+export function isAbortError(error: unknown): boolean {
+    return error instanceof Error && (error.name === 'AbortError' || error.name === 'APIUserAbortError');
+}
+
+function abortError(): Error {
+    const error = new Error('Request aborted');
+    error.name = 'AbortError';
+    return error;
+}
+
+// Provider SDKs disagree on where the status lives: OpenAI/ours use .status, Replicate uses .response
+function getStatus(error: unknown): number | undefined {
+    if (typeof error !== 'object' || error === null) return undefined;
+    const e = error as { status?: unknown; response?: { status?: unknown } };
+    if (typeof e.status === 'number') return e.status;
+    if (typeof e.response?.status === 'number') return e.response.status;
+    return undefined;
+}
+
+function getRetryAfterHeader(error: unknown): string | null | undefined {
+    if (typeof error !== 'object' || error === null) return undefined;
+    const e = error as { retryAfter?: unknown; headers?: unknown; response?: { headers?: unknown } };
+    if (typeof e.retryAfter === 'string') return e.retryAfter;
+
+    for (const headers of [e.headers, e.response?.headers]) {
+        if (headers instanceof Headers) return headers.get('retry-after');
+        if (headers && typeof headers === 'object') {
+            const value = (headers as Record<string, unknown>)['retry-after'];
+            if (typeof value === 'string') return value;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Parses a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    if (Number.isNaN(date)) return undefined;
+    return Math.max(0, date - now);
+}
+
+export function classifyError(error: unknown): ErrorClassification {
+    if (isAbortError(error)) return { retryable: false };
+
+    const status = getStatus(error);
+    if (status !== undefined) {
+        const retryable = RETRYABLE_STATUS.has(status) || status >= 500;
+        return {
+            retryable,
+            retryAfterMs: retryable ? parseRetryAfter(getRetryAfterHeader(error)) : undefined,
+        };
+    }
+
+    // No status means we never got a response: only retry transport failures
+    const message = error instanceof Error ? error.message : String(error);
+    return { retryable: NETWORK_ERROR_PATTERN.test(message) };
+}
+
+/**
+ * Failures that mean the provider is down or overloaded (transport errors, 5xx, 429) rather than
+ * a bad answer. Callers check this once retries are used up.
+ */
+export function isUnavailableError(error: unknown): boolean {
+    return !isAbortError(error) && classifyError(error).retryable;
+}
+
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    const jitter = exponential * policy.jitter * Math.random();
+    return Math.round(exponential - jitter);
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError());
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Runs `fn` until it succeeds, the error isn't retryable, attempts or budget run out, or `signal` aborts.
+ * The last error is rethrown unchanged so callers can keep their own error mapping.
+ */
+export async function withRetry<T>(
+    fn: (attempt: number) => Promise<T>,
+    options: RetryOptions = {}
+): Promise<T> {
+    const { signal, label = 'AI call', ...overrides } = options;
+    const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...overrides };
+    const startedAt = Date.now();
+
+    for (let attempt = 1; ; attempt++) {
+        if (signal?.aborted) throw abortError();
+
+        try {
+            return await fn(attempt);
+        } catch (error) {
+            if (signal?.aborted) throw abortError();
+
+            const { retryable, retryAfterMs } = classifyError(error);
+            if (!retryable || attempt >= policy.maxAttempts) throw error;
+
+            // Honor the server's Retry-After even past maxDelayMs; the budget still caps it
+            const wait = retryAfterMs ?? backoffDelay(attempt, policy);
+            const elapsed = Date.now() - startedAt;
+            if (policy.budgetMs > 0 && elapsed + wait > policy.budgetMs) throw error;
+
+            const reason = error instanceof Error ? error.message : String(error);
+            console.log(`${label}: attempt ${attempt} failed (${reason}), retrying in ${wait}ms...`);
+            await sleep(wait, signal);
+        }
+    }
+}
@@ -0,0 +1,135 @@
+/**
+ * Runs AI calls side by side without tripping provider rate limits.
+ * A fixed number of workers pull items in order, and a client wrapped with `withRateLimit` makes
+ * every provider call (retries and re-prompts included) first wait for a slot in a sliding
+ * one-minute window sized to the provider's requests-per-minute limit. The window is shared by
+ * every request this server process handles for that provider.
+ */
+
+import type { AIClient, AIProvider } from './ai-client';
+import { sleep } from './retry';
+
+export interface Schedule {
+    concurrency: number;
+    // 0 = no limit
+    requestsPerMinute: number;
+}
+
+// Conservative defaults that stay under the lowest paid tier (Gemini: the free tier)
+const PROVIDER_SCHEDULES: Record<AIProvider, Schedule> = {
+    openai: { concurrency: 4, requestsPerMinute: 60 },
+    gemini: { concurrency: 3, requestsPerMinute: 15 },
+    claude: { concurrency: 3, requestsPerMinute: 50 },
+    replicate: { concurrency: 3, requestsPerMinute: 60 },
+    // Ollama and friends work through requests one at a time anyway
+    local: { concurrency: 1, requestsPerMinute: 0 },
+};
+
+const WINDOW_MS = 60000;
+
+function envNumber(name: string): number | undefined {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 0 ? Math.floor(value) : undefined;
+}
+
+/**
+ * Provider defaults, overridable with AI_CONCURRENCY and AI_REQUESTS_PER_MINUTE
+ */
+export function getSchedule(provider: AIProvider): Schedule {
+    const defaults = PROVIDER_SCHEDULES[provider];
+    return {
+        concurrency: Math.max(1, envNumber('AI_CONCURRENCY') ?? defaults.concurrency),
+        requestsPerMinute: envNumber('AI_REQUESTS_PER_MINUTE') ?? defaults.requestsPerMinute,
+    };
+}
+
+export interface RateLimiter {
+    // Resolves once a call may start
+    acquire(signal?: AbortSignal): Promise<void>;
+}
+
+export function createRateLimiter(requestsPerMinute: number): RateLimiter {
+    const started: number[] = [];
+
+    return {
+        async acquire(signal) {
+            if (requestsPerMinute <= 0) return;
+            for (;;) {
+                const now = Date.now();
+                while (started.length > 0 && now - started[0] >= WINDOW_MS) started.shift();
+                if (started.length < requestsPerMinute) {
+                    started.push(now);
+                    return;
+                }
+                await sleep(started[0] + WINDOW_MS - now, signal);
+            }
+        },
+    };
+}
+
+const limiters = new Map<AIProvider, RateLimiter>();
+
+/**
+ * The provider's limiter, created on first use. Imports running at the same time share it, so
+ * together they stay under the provider's limit.
+ */
+export function getRateLimiter(provider: AIProvider): RateLimiter {
+    let limiter = limiters.get(provider);
+    if (!limiter) {
+        limiter = createRateLimiter(getSchedule(provider).requestsPerMinute);
+        limiters.set(provider, limiter);
+    }
+    return limiter;
+}
+
+/**
+ * Same client, but each call waits for the limiter (the provider's shared one by default) before
+ * it goes out. Answers served from the response cache never reach the client, so they don't use up a slot.
+ */
+export function withRateLimit(client: AIClient, limiter: RateLimiter = getRateLimiter(client.provider)): AIClient {
+    const embed = client.embed?.bind(client);
+
+    return {
+        ...client,
+        embed: embed && (async (texts, signal) => {
+            await limiter.acquire(signal);
+            return embed(texts, signal);
+        }),
+        async complete(request) {
+            await limiter.acquire(request.signal);
+            return client.complete(request);
+        },
+        async *stream(request) {
+            await limiter.acquire(request.signal);
+            yield* client.stream(request);
+        },
+    };
+}
+
+interface PoolOptions {
+    concurrency: number;
+    signal?: AbortSignal;
+}
+
+/**
+ * Calls `worker` for every item, at most `concurrency` at a time, starting them in order.
+ * Workers handle their own errors; an abort stops new items from starting.
+ */
+export async function runPool<T>(
+    items: T[],
+    worker: (item: T, index: number) => Promise<void>,
+    options: PoolOptions
+): Promise<void> {
+    const { concurrency, signal } = options;
+    let next = 0;
+
+    const run = async () => {
+        while (next < items.length && !signal?.aborted) {
+            const index = next++;
+            await worker(items[index], index);
+        }
+    };
+
+    const workers = Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, run);
+    await Promise.all(workers);
+}
@@ -0,0 +1,245 @@
+/**
+ * Runtime schemas for structured AI output.
+ * Validators repair what they safely can and report the rest so the model can be re-prompted.
+ */
+
+import type { DeconstructResponse, Milestone, SortResponse } from './types';
+
+export interface Validation<T> {
+    value: T | null;
+    errors: string[];
+}
+
+export const MAX_MILESTONES = 3;
+export const MAX_STEPS_PER_MILESTONE = 3;
+
+const MAX_FEEDBACK_ERRORS = 10;
+
+/**
+ * Thrown when the model never produced a usable payload
+ */
+export class StructuredOutputError extends Error {
+    errors: string[];
+
+    constructor(errors: string[]) {
+        super('Failed to parse AI response');
+        this.name = 'StructuredOutputError';
+        this.errors = errors;
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Accept numbers where the model forgot to quote, reject everything else
+function asText(value: unknown): string | null {
+    if (typeof value === 'string') return value.trim();
+    if (typeof value === 'number') return String(value);
+    return null;
+}
+
+/**
+ * Finds the first balanced JSON object in model output, ignoring chatter before and after it.
+ * Falls back to the last `}` when the object is truncated.
+ */
+function sliceFirstObject(output: string): string | null {
+    const start = output.indexOf('{');
+    if (start === -1) return null;
+
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < output.length; i++) {
+        const ch = output[i];
+        if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '{') depth++;
+        else if (ch === '}' && --depth === 0) return output.slice(start, i + 1);
+    }
+
+    const end = output.lastIndexOf('}');
+    return end > start ? output.slice(start, end + 1) : null;
+}
+
+// Try to fix common JSON issues from LLM output
+function repairJSON(json: string): string {
+    return json
+        .replace(/[“”]/g, '"')
+        .replace(/,\s*]/g, ']')
+        .replace(/,\s*}/g, '}')
+        .replace(/(\{|,)\s*(\w+)\s*:/g, '$1"$2":');
+}
+
+export function extractJSON(output: string): unknown {
+    const json = sliceFirstObject(output);
+    if (json === null) return undefined;
+
+    for (const candidate of [json, repairJSON(json)]) {
+        try {
+            return JSON.parse(candidate);
+        } catch {
+            // try the next candidate
+        }
+    }
+    return undefined;
+}
+
+// Models sometimes echo the numbering from the prompt, so ignore it when matching
+const normalizeTaskText = (text: string) => text.replace(/^\d+\.\s*/, '').trim().toLowerCase();
+
+export function validateSortResponse(raw: unknown, batch: string[] = []): Validation<SortResponse> {
+    if (!isRecord(raw) || !Array.isArray(raw.tasks)) {
+        return { value: null, errors: ['Expected an object with a "tasks" array'] };
+    }
+
+    const errors: string[] = [];
+    const tasks: SortResponse['tasks'] = [];
+
+    raw.tasks.forEach((item: unknown, i: number) => {
+        if (!isRecord(item)) {
+            errors.push(`tasks[${i}] is not an object`);
+            return;
+        }
+        const text = asText(item.text);
+        if (!text) {
+            errors.push(`tasks[${i}] is missing "text"`);
+            return;
+        }
+        const bucket = asText(item.bucket);
+        if (!bucket) {
+            errors.push(`tasks[${i}] ("${text}") is missing "bucket"`);
+            return;
+        }
+        tasks.push({ text, bucket });
+    });
+
+    if (batch.length > 0) {
+        const returned = new Set(tasks.map(t => normalizeTaskText(t.text)));
+        const missing = batch.filter(line => !returned.has(normalizeTaskText(line)));
+        if (missing.length > 0) {
+            const listed = missing.slice(0, 5).map(line => `"${line}"`).join(', ');
+            errors.push(`Missing ${missing.length} task(s): ${listed}${missing.length > 5 ? ', ...' : ''}`);
+        }
+    }
+
+    return { value: tasks.length > 0 ? { tasks } : null, errors };
+}
+
+/**
+ * Parses raw model output into a SortResponse. When the JSON is beyond repair,
+ * salvages individual `{"text", "bucket"}` pairs so a long batch isn't lost to one bad comma.
+ */
+export function parseSortResponse(output: string, batch: string[] = []): Validation<SortResponse> {
+    const raw = extractJSON(output);
+    if (raw !== undefined) return validateSortResponse(raw, batch);
+
+    const matches = output.matchAll(/"text"\s*:\s*"([^"]+)"\s*,\s*"bucket"\s*:\s*"([^"]+)"/g);
+    const salvaged = validateSortResponse({ tasks: Array.from(matches).map(m => ({ text: m[1], bucket: m[2] })) }, batch);
+    return { value: salvaged.value, errors: ['Response was not valid JSON', ...salvaged.errors] };
+}
+
+function validateSteps(raw: unknown, path: string, errors: string[]): string[] {
+    if (!Array.isArray(raw)) {
+        errors.push(`${path}.steps must be an array of strings`);
+        return [];
+    }
+
+    const steps: string[] = [];
+    raw.forEach((step: unknown, j: number) => {
+        // Some models wrap steps as {"text": ...} or {"step": ...}
+        const text = isRecord(step) ? asText(step.text ?? step.step ?? step.title) : asText(step);
+        if (text) steps.push(text);
+        else errors.push(`${path}.steps[${j}] is not a string`);
+    });
+    return steps.slice(0, MAX_STEPS_PER_MILESTONE);
+}
+
+export function validateMilestones(raw: unknown): Validation<DeconstructResponse> {
+    if (!isRecord(raw)) {
+        return { value: null, errors: ['Expected an object with a "milestones" array'] };
+    }
+
+    // Support the old flat "steps" format by wrapping it in a single milestone
+    if (!Array.isArray(raw.milestones) && Array.isArray(raw.steps)) {
+        const errors: string[] = [];
+        const steps = validateSteps(raw.steps, 'root', errors);
+        return {
+            value: steps.length > 0 ? { milestones: [{ title: 'Complete task', why: 'Get it done', steps }] } : null,
+            errors,
+        };
+    }
+
+    if (!Array.isArray(raw.milestones)) {
+        return { value: null, errors: ['Expected an object with a "milestones" array'] };
+    }
+
+    const errors: string[] = [];
+    const milestones: Milestone[] = [];
+
+    raw.milestones.slice(0, MAX_MILESTONES).forEach((item: unknown, i: number) => {
+        const path = `milestones[${i}]`;
+        if (!isRecord(item)) {
+            errors.push(`${path} is not an object`);
+            return;
+        }
+        const title = asText(item.title);
+        if (!title) {
+            errors.push(`${path} is missing "title"`);
+            return;
+        }
+        const steps = validateSteps(item.steps, path, errors);
+        if (steps.length === 0) {
+            errors.push(`${path} ("${title}") has no steps`);
+            return;
+        }
+        milestones.push({ title, why: asText(item.why) ?? '', steps });
+    });
+
+    return { value: milestones.length > 0 ? { milestones } : null, errors };
+}
+
+export function parseMilestones(output: string): Validation<DeconstructResponse> {
+    const raw = extractJSON(output);
+    if (raw === undefined) return { value: null, errors: ['Response was not valid JSON'] };
+    return validateMilestones(raw);
+}
+
+function withFeedback(prompt: string, errors: string[]): string {
+    const listed = errors.slice(0, MAX_FEEDBACK_ERRORS).map(e => `- ${e}`).join('\n');
+    return `${prompt}\n\nYour previous response was rejected:\n${listed}\n\nReturn ONLY the corrected JSON.`;
+}
+
+/**
+ * Asks the model for structured output, feeding validation errors back until it's clean.
+ * After the last attempt the best partially-valid payload is accepted rather than failing outright.
+ */
+export async function generateValidated<T>(
+    generate: (prompt: string) => Promise<string>,
+    prompt: string,
+    parse: (output: string) => Validation<T>,
+    options: { maxAttempts?: number; label?: string } = {}
+): Promise<T> {
+    const { maxAttempts = 2, label = 'AI output' } = options;
+    let currentPrompt = prompt;
+    let fallback: T | null = null;
+    let lastErrors: string[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const output = await generate(currentPrompt);
+        const { value, errors } = parse(output);
+        if (value && errors.length === 0) return value;
+
+        if (value) fallback = value;
+        lastErrors = errors;
+        console.warn(`${label}: invalid structured output (attempt ${attempt}/${maxAttempts}):`, errors);
+        if (!value) console.warn('Raw output:', output.substring(0, 500));
+
+        currentPrompt = withFeedback(prompt, errors);
+    }
+
+    if (fallback) return fallback;
+    throw new StructuredOutputError(lastErrors);
+}
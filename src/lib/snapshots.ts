@@ -0,0 +1,137 @@
+/**
+ * Restore points: a copy of the whole folder set taken before anything that rewrites it in bulk
+ * (imports, AI sorts, clears), so a bad run can be rolled back without rebuilding lists by hand.
+ */
+
+import { createPersistedDoc, validateList } from "./persistence";
+import type { Validation } from "./schemas";
+import { validateFolders } from "./store";
+import type { Folder, Task } from "./types";
+
+const SNAPSHOTS_KEY = "flowlist-snapshots";
+export const MAX_SNAPSHOTS = 30;
+
+export interface Snapshot {
+  id: string;
+  at: number;
+  reason: string;
+  taskCount: number;
+  folders: Folder[];
+}
+
+export interface SnapshotTask {
+  folder: string;
+  text: string;
+}
+
+export interface SnapshotDiff {
+  added: SnapshotTask[];
+  removed: SnapshotTask[];
+  completed: SnapshotTask[];
+  reopened: SnapshotTask[];
+}
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 11);
+}
+
+// Every task at every depth, by id
+function flattenTasks(folders: Folder[]): Map<string, SnapshotTask & { completed: boolean }> {
+  const tasks = new Map<string, SnapshotTask & { completed: boolean }>();
+  const walk = (folder: string, nodes: Task[]) => {
+    for (const t of nodes) {
+      tasks.set(t.id, { folder, text: t.text, completed: t.completed });
+      walk(folder, t.children);
+    }
+  };
+  folders.forEach(f => walk(f.name, f.tasks));
+  return tasks;
+}
+
+export function countTasks(folders: Folder[]): number {
+  return flattenTasks(folders).size;
+}
+
+/**
+ * What changed going from `from` to `to`, task by task
+ */
+export function diffSnapshots(from: Folder[], to: Folder[]): SnapshotDiff {
+  const before = flattenTasks(from);
+  const after = flattenTasks(to);
+  const diff: SnapshotDiff = { added: [], removed: [], completed: [], reopened: [] };
+
+  for (const [id, task] of after) {
+    const old = before.get(id);
+    const item = { folder: task.folder, text: task.text };
+    if (!old) diff.added.push(item);
+    else if (task.completed && !old.completed) diff.completed.push(item);
+    else if (!task.completed && old.completed) diff.reopened.push(item);
+  }
+  for (const [id, task] of before) {
+    if (!after.has(id)) diff.removed.push({ folder: task.folder, text: task.text });
+  }
+  return diff;
+}
+
+function isSnapshot(value: unknown): value is Snapshot {
+  const s = value as Snapshot;
+  return typeof s?.id === "string" && typeof s.at === "number" && typeof s.reason === "string" && Array.isArray(s.folders);
+}
+
+// Restoring puts a snapshot's folders straight on the board, so they get the store's checks too
+export function validateSnapshots(data: unknown): Validation<Snapshot[]> {
+  const list = validateList(data, isSnapshot, "snapshots");
+  if (!list.value) return list;
+
+  const errors = [...list.errors];
+  const value = list.value.map(snapshot => {
+    const folders = validateFolders(snapshot.folders);
+    errors.push(...folders.errors);
+    const repaired = folders.value ?? [];
+    return { ...snapshot, taskCount: countTasks(repaired), folders: repaired };
+  });
+  return { value, errors };
+}
+
+const snapshotsDoc = createPersistedDoc<Snapshot[]>({
+  key: SNAPSHOTS_KEY,
+  version: 1,
+  validate: validateSnapshots,
+});
+
+// Newest first
+export async function loadSnapshots(): Promise<Snapshot[]> {
+  return (await snapshotsDoc.load()) ?? [];
+}
+
+/**
+ * Records a restore point. Empty boards and repeats of the latest snapshot aren't worth keeping.
+ */
+export async function takeSnapshot(folders: Folder[], reason: string): Promise<void> {
+  if (folders.length === 0) return;
+  const snapshots = await loadSnapshots();
+  const latest = snapshots[0];
+  if (latest && JSON.stringify(latest.folders) === JSON.stringify(folders)) return;
+
+  const snapshot: Snapshot = { id: generateId(), at: Date.now(), reason, taskCount: countTasks(folders), folders };
+  await snapshotsDoc.saveNow([snapshot, ...snapshots].slice(0, MAX_SNAPSHOTS));
+}
+
+export async function deleteSnapshot(id: string): Promise<Snapshot[]> {
+  const snapshots = (await loadSnapshots()).filter(s => s.id !== id);
+  await snapshotsDoc.saveNow(snapshots);
+  return snapshots;
+}
+
+/**
+ * Adds snapshots from elsewhere (a workspace bundle) to the local ones, newest first, skipping ids already kept
+ */
+export async function addSnapshots(incoming: Snapshot[]): Promise<Snapshot[]> {
+  const snapshots = await loadSnapshots();
+  const known = new Set(snapshots.map(s => s.id));
+  const merged = [...snapshots, ...incoming.filter(s => !known.has(s.id))]
+    .sort((a, b) => b.at - a.at)
+    .slice(0, MAX_SNAPSHOTS);
+  await snapshotsDoc.saveNow(merged);
+  return merged;
+}
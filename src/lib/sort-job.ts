@@ -0,0 +1,101 @@
+/**
+ * Persisted sort job: tracks every batch of an import so a reload or a failed
+ * batch doesn't throw away the work that already succeeded.
+ */
+
+import { createPersistedDoc } from "./persistence";
+import type { SortBatchPlan } from "./types";
+
+const SORT_JOB_KEY = "flowlist-sort-job";
+
+export type BatchStatus = "pending" | "running" | "done" | "failed";
+
+export interface SortJobBatch extends SortBatchPlan {
+  status: BatchStatus;
+  error?: string;
+}
+
+export interface SortJob {
+  id: string;
+  createdAt: number;
+  batches: SortJobBatch[];
+}
+
+export function createSortJob(id: string, plan: SortBatchPlan[]): SortJob {
+  return {
+    id,
+    createdAt: Date.now(),
+    batches: plan.map(b => ({ ...b, status: "pending" as const })),
+  };
+}
+
+export function updateBatch(job: SortJob, index: number, status: BatchStatus, error?: string): SortJob {
+  return {
+    ...job,
+    batches: job.batches.map(b => b.index === index ? { ...b, status, error } : b),
+  };
+}
+
+export function updateBatches(job: SortJob, indexes: number[], status: BatchStatus): SortJob {
+  return {
+    ...job,
+    batches: job.batches.map(b => indexes.includes(b.index) ? { ...b, status, error: undefined } : b),
+  };
+}
+
+// When the whole request dies, every batch still in flight failed with it
+export function failRunningBatches(job: SortJob, error: string): SortJob {
+  return {
+    ...job,
+    batches: job.batches.map(b => b.status === "running" ? { ...b, status: "failed" as const, error } : b),
+  };
+}
+
+/**
+ * Batches still to run. A batch left "running" was interrupted by a reload, so it counts as unfinished.
+ */
+export function unfinishedBatches(job: SortJob, onlyFailed: boolean = false): SortJobBatch[] {
+  return job.batches.filter(b => onlyFailed ? b.status === "failed" : b.status !== "done");
+}
+
+export function isJobComplete(job: SortJob): boolean {
+  return job.batches.every(b => b.status === "done");
+}
+
+const BATCH_STATUSES: BatchStatus[] = ["pending", "running", "done", "failed"];
+
+function isSortJobBatch(value: unknown): value is SortJobBatch {
+  const batch = value as SortJobBatch;
+  return typeof batch?.index === "number"
+    && Array.isArray(batch.lines)
+    && batch.lines.every(l => typeof l === "string")
+    && BATCH_STATUSES.includes(batch.status);
+}
+
+const sortJobDoc = createPersistedDoc<SortJob>({
+  key: SORT_JOB_KEY,
+  version: 1,
+  // v0 is the job stored as-is
+  migrations: { 0: data => data },
+  validate: data => {
+    const job = data as SortJob;
+    if (typeof job?.id !== "string" || !Array.isArray(job.batches)) {
+      return { value: null, errors: ["Sort job is missing its id or batches"] };
+    }
+    const batches = job.batches.filter(isSortJobBatch);
+    const dropped = job.batches.length - batches.length;
+    return {
+      value: { id: job.id, createdAt: Number(job.createdAt) || Date.now(), batches },
+      errors: dropped > 0 ? [`Dropped ${dropped} malformed batch(es)`] : [],
+    };
+  },
+});
+
+export async function loadSortJob(): Promise<SortJob | null> {
+  return (await sortJobDoc.load()) ?? null;
+}
+
+export function saveSortJob(job: SortJob | null): void {
+  if (job) sortJobDoc.save(job);
+  else void sortJobDoc.clear();
+}
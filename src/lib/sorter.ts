@@ -0,0 +1,143 @@
+/**
+ * Server-side batch sorting shared by /api/sort and /api/sort/stream
+ */
+
+import type { AIClient } from './ai-client';
+import { getModelLimits } from './chunker';
+import { getPrompt, renderPrompt } from './prompts';
+import { cacheKey, type ResponseCache } from './response-cache';
+import { withRetry, type RetryPolicy } from './retry';
+import { generateValidated, parseSortResponse } from './schemas';
+import { applyAliases } from './taxonomy';
+import type { BucketAlias, PromptDifference, SortExample, SortResponse } from './types';
+
+// Sorting is one big batch call: allow longer waits before giving up
+const RETRY_POLICY: Partial<RetryPolicy> = {
+    maxAttempts: 3,
+    baseDelayMs: 5000,
+    maxDelayMs: 20000,
+    budgetMs: 60000,
+};
+
+const MAX_EXAMPLES = 20;
+
+/**
+ * Keeps only well-formed examples from an untrusted request body
+ */
+export function parseSortExamples(value: unknown): SortExample[] {
+    if (!Array.isArray(value)) return [];
+    return value
+        .filter((e): e is SortExample => typeof e?.text === 'string' && typeof e?.bucket === 'string')
+        .slice(0, MAX_EXAMPLES);
+}
+
+export function buildSortPrompt(
+    batch: string[],
+    existingBuckets: string[] = [],
+    examples: SortExample[] = [],
+    promptVersion?: string
+): string {
+    const bucketsContext = existingBuckets.length > 0
+        ? `Existing buckets: ${existingBuckets.join(', ')}`
+        : '';
+
+    // Past corrections from the user, so the model files things the way they do
+    const examplesContext = examples.length > 0
+        ? `\n\nFollow how the user has filed these before:\n${examples.map(e => `- "${e.text}" -> ${e.bucket}`).join('\n')}`
+        : '';
+
+    const tasksText = batch.map((task, i) => `${i + 1}. ${task}`).join('\n');
+    return renderPrompt(getPrompt('sort', promptVersion), {
+        buckets: bucketsContext,
+        examples: examplesContext,
+        tasks: tasksText,
+    });
+}
+
+export interface SortBatchOptions {
+    existingBuckets?: string[];
+    // Stops retries and the provider call when the client disconnects
+    signal?: AbortSignal;
+    examples?: SortExample[];
+    aliases?: BucketAlias[];
+    cache?: ResponseCache;
+    // Buckets the cache entry is keyed on; existingBuckets unless given
+    cacheBuckets?: string[];
+    // A registered sort prompt version; the default one otherwise
+    promptVersion?: string;
+}
+
+/**
+ * Sorts one batch of task lines into buckets with retries and schema validation.
+ * Buckets the model names by one of the user's aliases are filed under the canonical folder.
+ * With a `cache`, the validated answer is reused for the same lines, examples, prompt and model
+ * and the same `cacheBuckets`. The stream route grows its bucket list while batches run in
+ * parallel, so it keys on the list the request started with and reconciles the answer's buckets
+ * with the current ones afterwards; aliases are applied after the lookup too, so they can change
+ * without invalidating it.
+ */
+export async function sortBatch(
+    client: AIClient,
+    batch: string[],
+    options: SortBatchOptions = {}
+): Promise<SortResponse> {
+    const { existingBuckets = [], signal, examples = [], aliases = [], cache, promptVersion } = options;
+    const cacheBuckets = options.cacheBuckets ?? existingBuckets;
+
+    const key = cacheKey({
+        kind: 'sort',
+        provider: client.provider,
+        model: client.model,
+        prompt: buildSortPrompt(batch, [], examples, promptVersion),
+        buckets: cacheBuckets,
+    });
+    const cached = await cache?.get<SortResponse>(key);
+    if (cached) return applyAliases(cached, aliases);
+
+    // Call the configured provider with retry logic; stop if the client disconnects
+    const generate = (prompt: string) => withRetry(() => client.complete({
+        prompt,
+        temperature: 0.2,
+        topP: 0.9,
+        // Batches are planned so the echoed JSON fits the model's output limit
+        maxTokens: getModelLimits(client.model).outputTokens,
+        signal,
+    }), { ...RETRY_POLICY, signal, label: 'Sort' });
+
+    // Validate against the SortResponse schema, re-prompting with the errors if it's malformed
+    const result = await generateValidated(
+        generate,
+        buildSortPrompt(batch, existingBuckets, examples, promptVersion),
+        output => parseSortResponse(output, batch),
+        { label: 'Sort' }
+    );
+    await cache?.set(key, result);
+    return applyAliases(result, aliases);
+}
+
+/**
+ * Lines of `batch` the two results filed under different buckets (case-insensitively), in batch order
+ */
+export function compareSortResults(
+    batch: string[],
+    a: SortResponse,
+    b: SortResponse
+): { agreed: number; differences: PromptDifference[] } {
+    const key = (text: string) => text.trim().toLowerCase();
+    const bucketsOf = (result: SortResponse) => new Map(result.tasks.map(t => [key(t.text), t.bucket]));
+    const bucketsA = bucketsOf(a);
+    const bucketsB = bucketsOf(b);
+
+    let agreed = 0;
+    const differences: PromptDifference[] = [];
+    for (const text of batch) {
+        const bucketA = bucketsA.get(key(text)) ?? null;
+        const bucketB = bucketsB.get(key(text)) ?? null;
+        if (bucketA !== null && bucketB !== null && key(bucketA) === key(bucketB)) {
+            agreed++;
+        } else {
+            differences.push({ text, buckets: [bucketA, bucketB] });
+        }
+    }
+    return { agreed, differences };
+}
@@ -0,0 +1,58 @@
+/**
+ * Minimal Server-Sent Events helpers, used both by route handlers and the browser
+ */
+
+export interface SSEMessage {
+    event: string;
+    data: string;
+}
+
+export const SSE_HEADERS = {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+};
+
+export function formatSSE(event: string, data: unknown): string {
+    const payload = typeof data === 'string' ? data : JSON.stringify(data);
+    const lines = payload.split('\n').map(line => `data: ${line}`).join('\n');
+    return `event: ${event}\n${lines}\n\n`;
+}
+
+function parseMessage(chunk: string): SSEMessage | null {
+    let event = 'message';
+    const data: string[] = [];
+
+    for (const line of chunk.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    }
+    return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+/**
+ * Yields each event in a fetch response body as it arrives
+ */
+export async function* readSSE(response: Response): AsyncGenerator<SSEMessage> {
+    if (!response.body) return;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+            const message = parseMessage(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary + 2);
+            if (message) yield message;
+            boundary = buffer.indexOf('\n\n');
+        }
+    }
+
+    const trailing = parseMessage(buffer);
+    if (trailing) yield trailing;
+}
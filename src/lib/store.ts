@@ -0,0 +1,176 @@
+/**
+ * The folder store shared by the board and the deconstructor. Saved through the versioned
+ * persistence layer; the per-page copies older builds kept are migrated into it on first load.
+ */
+
+import { del, get } from "idb-keyval";
+import { createPersistedDoc, reportPersistenceIssue } from "./persistence";
+import type { Validation } from "./schemas";
+import { mergeTaskLists } from "./taxonomy";
+import { TIERS, type Folder, type Task } from "./types";
+
+const STORE_KEY = "flowlist-store";
+export const STORE_VERSION = 2;
+
+// Where each page used to keep its own copy
+const LEGACY_BOARD_KEY = "flowlist-folders"; // IndexedDB, Folder[]
+const LEGACY_TREE_KEY = "flowlist-tree"; // localStorage, deconstructor folders
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 11);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Drops malformed tasks (anywhere in the tree) instead of the whole folder, counting what was lost
+function sanitizeTasks(value: unknown, errors: string[]): Task[] {
+  if (!Array.isArray(value)) return [];
+  const tasks: Task[] = [];
+  for (const item of value) {
+    if (!isRecord(item) || typeof item.text !== "string") {
+      errors.push("Dropped a task without text");
+      continue;
+    }
+    tasks.push({
+      id: typeof item.id === "string" ? item.id : generateId(),
+      text: item.text,
+      completed: item.completed === true,
+      children: sanitizeTasks(item.children, errors),
+    });
+  }
+  return tasks;
+}
+
+export function validateFolders(data: unknown): Validation<Folder[]> {
+  if (!Array.isArray(data)) return { value: null, errors: ["Folders are not a list"] };
+
+  const errors: string[] = [];
+  const folders: Folder[] = [];
+  for (const item of data) {
+    if (!isRecord(item) || typeof item.name !== "string") {
+      errors.push("Dropped a folder without a name");
+      continue;
+    }
+    folders.push({
+      id: typeof item.id === "string" ? item.id : generateId(),
+      name: item.name,
+      tier: TIERS.includes(item.tier as Folder["tier"]) ? item.tier as Folder["tier"] : null,
+      tasks: sanitizeTasks(item.tasks, errors),
+      expanded: item.expanded === true,
+    });
+  }
+  return { value: folders, errors };
+}
+
+const folderDoc = createPersistedDoc<Folder[]>({
+  key: STORE_KEY,
+  version: STORE_VERSION,
+  migrations: {
+    // v1 stored { version, folders } before the persistence envelope existed
+    1: data => isRecord(data) ? data.folders : data,
+  },
+  validate: validateFolders,
+});
+
+// The deconstructor's old shape: keyed by name, A/B/C tiers, plus a folder-level completed flag
+interface LegacyTreeNode {
+  id?: string;
+  text: string;
+  completed?: boolean;
+  children?: LegacyTreeNode[];
+}
+
+interface LegacyTreeFolder {
+  name: string;
+  tier: "A" | "B" | "C" | null;
+  tasks: LegacyTreeNode[];
+  completed?: boolean;
+  expanded?: boolean;
+}
+
+function fromTreeNode(node: LegacyTreeNode, folderCompleted: boolean): Task {
+  return {
+    id: node.id ?? generateId(),
+    text: node.text,
+    // Ticking a folder used to tick everything in it, but older saves may not have cascaded
+    completed: folderCompleted || !!node.completed,
+    children: (node.children ?? []).filter(isTreeNode).map(c => fromTreeNode(c, folderCompleted)),
+  };
+}
+
+function isTreeNode(value: unknown): value is LegacyTreeNode {
+  return typeof (value as LegacyTreeNode)?.text === "string";
+}
+
+function isTreeFolder(value: unknown): value is LegacyTreeFolder {
+  const folder = value as LegacyTreeFolder;
+  return typeof folder?.name === "string" && Array.isArray(folder.tasks);
+}
+
+// null when the old tree can't be read, so it's left in place rather than deleted
+function readLegacyTree(): LegacyTreeFolder[] | null {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LEGACY_TREE_KEY) ?? "[]");
+    if (!Array.isArray(parsed)) throw new Error("Saved tree is not a list");
+    return parsed.filter(isTreeFolder);
+  } catch (error) {
+    reportPersistenceIssue({
+      kind: "corrupt",
+      key: LEGACY_TREE_KEY,
+      message: `Couldn't migrate the deconstructor's saved tree (${error instanceof Error ? error.message : error}); it was left in localStorage`,
+    });
+    return null;
+  }
+}
+
+/**
+ * Combines the board's folders with the deconstructor's. Folders with the same name are merged
+ * (tasks deduped, breakdowns kept); the board's tier wins when both pages rated a folder.
+ */
+function mergeLegacyFolders(board: Folder[], tree: LegacyTreeFolder[]): Folder[] {
+  const folders = [...board];
+  for (const legacy of tree) {
+    const tasks = legacy.tasks.filter(isTreeNode).map(t => fromTreeNode(t, !!legacy.completed));
+    const index = folders.findIndex(f => f.name === legacy.name);
+    if (index === -1) {
+      folders.push({ id: generateId(), name: legacy.name, tier: legacy.tier, tasks, expanded: !!legacy.expanded });
+    } else {
+      const existing = folders[index];
+      folders[index] = {
+        ...existing,
+        tier: existing.tier ?? legacy.tier,
+        tasks: mergeTaskLists(existing.tasks, tasks),
+      };
+    }
+  }
+  return folders;
+}
+
+export async function loadFolders(): Promise<Folder[]> {
+  const stored = await folderDoc.load();
+  if (stored) return stored;
+
+  const board = validateFolders((await get(LEGACY_BOARD_KEY)) ?? []).value ?? [];
+  const tree = readLegacyTree();
+  const folders = mergeLegacyFolders(board, tree ?? []);
+
+  // Only drop the old copies once the migrated store is safely written
+  if (await folderDoc.saveNow(folders)) {
+    await del(LEGACY_BOARD_KEY);
+    if (tree) localStorage.removeItem(LEGACY_TREE_KEY);
+  }
+  return folders;
+}
+
+// Debounced; unchanged folders aren't rewritten
+export function saveFolders(folders: Folder[]): void {
+  folderDoc.save(folders);
+}
+
+/**
+ * A folder counts as done once it has tasks and all of them are ticked
+ */
+export function isFolderComplete(folder: Folder): boolean {
+  return folder.tasks.length > 0 && folder.tasks.every(t => t.completed);
+}
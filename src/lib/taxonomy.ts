@@ -0,0 +1,251 @@
+/**
+ * Bucket taxonomy: rename, merge and split folders, and keep aliases so that a bucket name
+ * the model keeps coming back with ("Chores") lands in the folder the user settled on ("Errands").
+ */
+
+import { normalizeTaskText } from "./dedup";
+import { createPersistedDoc, validateList } from "./persistence";
+import type { BucketAlias, Folder, SortResponse, Task } from "./types";
+
+const ALIASES_KEY = "flowlist-bucket-aliases";
+const MAX_ALIASES = 200;
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 11);
+}
+
+// Bucket names are matched case- and whitespace-insensitively
+function bucketKey(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Follows aliases to the canonical bucket name; names without an alias come back unchanged
+ */
+export function resolveBucket(aliases: BucketAlias[], bucket: string): string {
+  const seen = new Set<string>();
+  let current = bucket;
+  while (!seen.has(bucketKey(current))) {
+    seen.add(bucketKey(current));
+    const next = aliases.find(a => bucketKey(a.alias) === bucketKey(current));
+    if (!next) break;
+    current = next.canonical;
+  }
+  return current;
+}
+
+/**
+ * Points `alias` at `canonical`. Aliases that pointed at `alias` follow it, and `canonical`
+ * itself stops being an alias since it's now a real folder.
+ */
+export function addAlias(aliases: BucketAlias[], alias: string, canonical: string): BucketAlias[] {
+  const from = bucketKey(alias);
+  const to = bucketKey(canonical);
+  if (!from || from === to) return aliases;
+
+  const kept = aliases
+    .filter(a => bucketKey(a.alias) !== from && bucketKey(a.alias) !== to)
+    .map(a => bucketKey(a.canonical) === from ? { ...a, canonical } : a);
+  return [...kept, { alias: alias.trim(), canonical }].slice(-MAX_ALIASES);
+}
+
+export function removeAlias(aliases: BucketAlias[], alias: string): BucketAlias[] {
+  return aliases.filter(a => bucketKey(a.alias) !== bucketKey(alias));
+}
+
+export function aliasesFor(aliases: BucketAlias[], canonical: string): string[] {
+  return aliases.filter(a => bucketKey(a.canonical) === bucketKey(canonical)).map(a => a.alias);
+}
+
+/**
+ * Aliases whose canonical folder still exists. After a rename is undone, or a folder is deleted,
+ * its aliases would otherwise send sort results to a folder that's gone.
+ */
+export function liveAliases(aliases: BucketAlias[], folders: Folder[]): BucketAlias[] {
+  const names = new Set(folders.map(f => bucketKey(f.name)));
+  return aliases.filter(a => names.has(bucketKey(resolveBucket(aliases, a.canonical))));
+}
+
+/**
+ * Rewrites every bucket in a sort result to its canonical name
+ */
+export function applyAliases(response: SortResponse, aliases: BucketAlias[]): SortResponse {
+  if (aliases.length === 0) return response;
+  return { tasks: response.tasks.map(t => ({ ...t, bucket: resolveBucket(aliases, t.bucket) })) };
+}
+
+// Looser than bucketKey: "Grocery" / "Groceries", "Home & Garden" / "home and garden"
+function looseBucketKey(name: string): string {
+  return bucketKey(name)
+    .replace(/&/g, " and ")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.replace(/ies$/, "y").replace(/(ss|x|ch|sh)es$/, "$1").replace(/([^s])s$/, "$1"))
+    .join(" ");
+}
+
+/**
+ * Batches sorted side by side each invent bucket names without seeing the others'. A bucket that
+ * only differs from a known one in case, punctuation or plural is filed under the known spelling.
+ */
+export function reconcileBucket(known: Iterable<string>, bucket: string): string {
+  const key = looseBucketKey(bucket);
+  if (!key) return bucket;
+  for (const name of known) {
+    if (looseBucketKey(name) === key) return name;
+  }
+  return bucket;
+}
+
+/**
+ * Keeps only well-formed aliases from an untrusted request body
+ */
+export function parseBucketAliases(value: unknown): BucketAlias[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(isBucketAlias).slice(0, MAX_ALIASES);
+}
+
+function isBucketAlias(value: unknown): value is BucketAlias {
+  const alias = value as BucketAlias;
+  return typeof alias?.alias === "string" && typeof alias.canonical === "string";
+}
+
+/**
+ * Finds a folder by name, directly or through an alias
+ */
+export function findFolderByName(folders: Folder[], aliases: BucketAlias[], name: string): Folder | undefined {
+  const key = bucketKey(resolveBucket(aliases, name));
+  return folders.find(f => bucketKey(f.name) === key);
+}
+
+/**
+ * Appends `incoming` to `target`, folding duplicates (by normalized text) into the existing task.
+ * Subtasks of a duplicate are merged the same way, so nothing written under either copy is lost.
+ */
+export function mergeTaskLists(target: Task[], incoming: Task[]): Task[] {
+  const merged = [...target];
+  for (const task of incoming) {
+    const key = normalizeTaskText(task.text);
+    const index = merged.findIndex(t => normalizeTaskText(t.text) === key);
+    if (index === -1) {
+      merged.push(task);
+    } else {
+      const existing = merged[index];
+      merged[index] = {
+        ...existing,
+        completed: existing.completed && task.completed,
+        children: mergeTaskLists(existing.children, task.children),
+      };
+    }
+  }
+  return merged;
+}
+
+export interface TaxonomyChange {
+  folders: Folder[];
+  aliases: BucketAlias[];
+}
+
+/**
+ * Folds `sourceId` into `targetId`, deduping tasks. The source name becomes an alias of the target.
+ */
+export function mergeFolders(
+  folders: Folder[],
+  aliases: BucketAlias[],
+  sourceId: string,
+  targetId: string
+): TaxonomyChange {
+  const source = folders.find(f => f.id === sourceId);
+  const target = folders.find(f => f.id === targetId);
+  if (!source || !target || source.id === target.id) return { folders, aliases };
+
+  return {
+    folders: folders
+      .filter(f => f.id !== source.id)
+      .map(f => f.id === target.id ? { ...f, tasks: mergeTaskLists(f.tasks, source.tasks) } : f),
+    aliases: addAlias(aliases, source.name, target.name),
+  };
+}
+
+/**
+ * Renames a folder and keeps the old name as an alias. Renaming onto another folder's name merges into it.
+ */
+export function renameFolder(
+  folders: Folder[],
+  aliases: BucketAlias[],
+  folderId: string,
+  name: string
+): TaxonomyChange {
+  const folder = folders.find(f => f.id === folderId);
+  const newName = name.trim();
+  if (!folder || !newName || newName === folder.name) return { folders, aliases };
+
+  const clash = folders.find(f => f.id !== folderId && bucketKey(f.name) === bucketKey(newName));
+  if (clash) return mergeFolders(folders, aliases, folderId, clash.id);
+
+  return {
+    folders: folders.map(f => f.id === folderId ? { ...f, name: newName } : f),
+    aliases: addAlias(aliases, folder.name, newName),
+  };
+}
+
+/**
+ * Moves the selected top-level tasks into a folder named `name`, creating it next to the source
+ * (same tier) unless a folder with that name or alias already exists.
+ */
+export function splitFolder(
+  folders: Folder[],
+  aliases: BucketAlias[],
+  folderId: string,
+  taskIds: string[],
+  name: string
+): Folder[] {
+  const source = folders.find(f => f.id === folderId);
+  const newName = name.trim();
+  if (!source || !newName || taskIds.length === 0) return folders;
+
+  const selected = new Set(taskIds);
+  const moving = source.tasks.filter(t => selected.has(t.id));
+  if (moving.length === 0) return folders;
+
+  const remaining = folders.map(f => f.id === folderId ? { ...f, tasks: f.tasks.filter(t => !selected.has(t.id)) } : f);
+  const existing = findFolderByName(remaining, aliases, newName);
+  if (existing) {
+    return remaining.map(f => f.id === existing.id ? { ...f, tasks: mergeTaskLists(f.tasks, moving) } : f);
+  }
+
+  const index = remaining.findIndex(f => f.id === folderId);
+  const created: Folder = { id: generateId(), name: newName, tier: source.tier, tasks: moving, expanded: true };
+  return [...remaining.slice(0, index + 1), created, ...remaining.slice(index + 1)];
+}
+
+/**
+ * Adds imported folders to the board. A folder whose name (or alias) already exists gets the
+ * imported tasks merged into it, keeping its tier; the rest are appended as new folders.
+ */
+export function mergeImportedFolders(folders: Folder[], aliases: BucketAlias[], incoming: Folder[]): Folder[] {
+  let result = folders;
+  for (const folder of incoming) {
+    const existing = findFolderByName(result, aliases, folder.name);
+    result = existing
+      ? result.map(f => f.id === existing.id ? { ...f, tasks: mergeTaskLists(f.tasks, folder.tasks) } : f)
+      : [...result, folder];
+  }
+  return result;
+}
+
+const aliasesDoc = createPersistedDoc<BucketAlias[]>({
+  key: ALIASES_KEY,
+  version: 1,
+  // v0 is the bare array
+  migrations: { 0: data => data },
+  validate: data => validateList(data, isBucketAlias, "aliases"),
+});
+
+export async function loadBucketAliases(): Promise<BucketAlias[]> {
+  return (await aliasesDoc.load()) ?? [];
+}
+
+export function saveBucketAliases(aliases: BucketAlias[]): void {
+  aliasesDoc.save(aliases);
+}
@@ -19,6 +19,119 @@ export interface SortResponse {
   tasks: { text: string; bucket: string }[];
 }
 
+// A labelled example injected into the sort prompt so the model follows the user's conventions
+export interface SortExample {
+  text: string;
+  bucket: string;
+}
+
+// Another name for a folder: sort results using `alias` are filed under `canonical`
+export interface BucketAlias {
+  alias: string;
+  canonical: string;
+}
+
+export interface SortBatchPlan {
+  index: number;
+  lines: string[];
+}
+
+export type UsageOperation = "sort" | "deconstruct" | "embed";
+
+// One provider call. Token counts are the provider's own unless `estimated`
+export interface UsageRecord {
+  operation: UsageOperation;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  // null when the model has no list price, so what the call cost is unknown
+  costUsd: number | null;
+  estimated: boolean;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number;
+  // Calls to models without a list price; their cost isn't in costUsd
+  unpricedCalls: number;
+}
+
+// Returned with every AI response; calls answered from the cache aren't in it
+export interface UsageReport {
+  total: UsageTotals;
+  calls: UsageRecord[];
+}
+
+export interface DailyUsage extends UsageTotals {
+  date: string; // YYYY-MM-DD
+}
+
+export interface ImportUsage extends UsageTotals {
+  id: string;
+  label: string;
+  startedAt: number;
+}
+
+// What GET /api/usage returns for the usage panel
+export interface UsageSummary {
+  month: string; // YYYY-MM
+  monthCostUsd: number;
+  monthUnpricedCalls: number;
+  budgetUsd: number | null;
+  days: DailyUsage[];
+  imports: ImportUsage[];
+}
+
+// A task two prompt versions filed differently; null when a version left it out
+export interface PromptDifference {
+  text: string;
+  buckets: [string | null, string | null];
+}
+
+// What /api/sort/compare returns: the same batch sorted with two prompt versions
+export interface PromptComparison {
+  versions: [string, string];
+  total: number;
+  agreed: number;
+  differences: PromptDifference[];
+  // Lines past the first batch, which weren't sent
+  skipped: number;
+  usage: UsageReport;
+}
+
+// Events emitted by /api/sort/stream, one per SSE message (the SSE event name is `type`)
+export type SortStreamEvent =
+  | { type: "start"; totalBatches: number; totalTasks: number; batches: SortBatchPlan[] }
+  | { type: "task"; batch: number; text: string; bucket: string }
+  | { type: "batch-done"; index: number; completed: number; total: number; usage: UsageReport }
+  // `unavailable`: the provider couldn't be reached or the budget ran out, so the lines can be sorted offline
+  | { type: "batch-error"; index: number; lines: string[]; error: string; unavailable: boolean }
+  | { type: "done"; sorted: number; failedBatches: number[]; usage: UsageTotals }
+  | { type: "error"; error: string };
+
+export interface Milestone {
+  title: string;
+  why: string;
+  steps: string[];
+}
+
+export interface DeconstructResponse {
+  milestones: Milestone[];
+}
+
+// Events emitted by /api/deconstruct/stream. `reset` means a retry started: drop what was streamed so far
+export type DeconstructStreamEvent =
+  | { type: "milestone"; index: number; title: string; why: string }
+  | { type: "step"; milestone: number; index: number; text: string }
+  | { type: "reset" }
+  | { type: "done"; milestones: Milestone[]; usage: UsageReport }
+  | { type: "error"; error: string };
+
 export const TIERS: Tier[] = ["S", "A", "B", "C", "D", "F"];
 
 export const TIER_COLORS: Record<string, string> = {
@@ -0,0 +1,162 @@
+/**
+ * Server-side usage ledger: daily and per-import totals plus the optional monthly budget,
+ * kept in one JSON file next to the response cache. Once the month's spend reaches the budget,
+ * routes refuse further AI calls until the next month or a higher budget.
+ * Calls to models without a list price are counted but can't be charged against the budget.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import type { DailyUsage, ImportUsage, UsageRecord, UsageSummary, UsageTotals } from './types';
+import { addToTotals, emptyTotals } from './usage';
+
+interface UsageLedger {
+    version: 1;
+    budgetUsd: number | null;
+    days: Record<string, UsageTotals>;
+    imports: ImportUsage[];
+}
+
+export interface ImportRef {
+    id: string;
+    label: string;
+}
+
+const DEFAULT_USAGE_FILE = '.cache/usage.json';
+const KEEP_DAYS = 90;
+const KEEP_IMPORTS = 50;
+
+/**
+ * Thrown before an AI call once the month's spend has reached the budget
+ */
+export class BudgetExceededError extends Error {
+    constructor(spentUsd: number, budgetUsd: number) {
+        super(`Monthly AI budget of $${budgetUsd.toFixed(2)} reached ($${spentUsd.toFixed(2)} spent)`);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+function ledgerPath(): string {
+    return path.resolve(process.env.AI_USAGE_FILE || DEFAULT_USAGE_FILE);
+}
+
+function emptyLedger(): UsageLedger {
+    // AI_MONTHLY_BUDGET_USD seeds the budget until one is set from the usage panel
+    const budget = Number(process.env.AI_MONTHLY_BUDGET_USD);
+    return { version: 1, budgetUsd: budget > 0 ? budget : null, days: {}, imports: [] };
+}
+
+// Local dates, so "today" matches the user's calendar
+function dayKey(time: number): string {
+    const date = new Date(time);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+async function readLedger(): Promise<UsageLedger> {
+    try {
+        const ledger = JSON.parse(await readFile(ledgerPath(), 'utf8'));
+        if (ledger?.version === 1 && ledger.days && Array.isArray(ledger.imports)) {
+            // Totals written before unpriced calls were counted lack that field
+            for (const date of Object.keys(ledger.days)) ledger.days[date] = { ...emptyTotals(), ...ledger.days[date] };
+            ledger.imports = ledger.imports.map((entry: ImportUsage) => ({ ...emptyTotals(), ...entry }));
+            return ledger;
+        }
+        console.warn('Usage ledger has an unknown format, starting a new one');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.warn('Usage ledger read failed:', error);
+        }
+    }
+    return emptyLedger();
+}
+
+async function writeLedger(ledger: UsageLedger): Promise<void> {
+    const target = ledgerPath();
+    const temp = `${target}.${process.pid}.tmp`;
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(temp, JSON.stringify(ledger), 'utf8');
+    await rename(temp, target);
+}
+
+// Concurrent batches record at the same time; updates run one after another
+let pending: Promise<unknown> = Promise.resolve();
+
+function updateLedger(update: (ledger: UsageLedger) => void): Promise<void> {
+    const next = pending.then(async () => {
+        const ledger = await readLedger();
+        update(ledger);
+        await writeLedger(ledger);
+    });
+    pending = next.catch(error => console.warn('Usage ledger write failed:', error));
+    return pending.then(() => undefined);
+}
+
+function monthTotals(ledger: UsageLedger, month: string): UsageTotals {
+    return Object.entries(ledger.days)
+        .filter(([date]) => date.startsWith(month))
+        .reduce((sum, [, totals]) => addToTotals(sum, totals), emptyTotals());
+}
+
+/**
+ * Adds calls to today's totals and, for a sort import, to that import's totals
+ */
+export function recordUsage(records: UsageRecord[], importRef?: ImportRef): Promise<void> {
+    if (records.length === 0) return Promise.resolve();
+    const now = Date.now();
+
+    return updateLedger(ledger => {
+        const today = dayKey(now);
+        ledger.days[today] = records.reduce(addToTotals, ledger.days[today] ?? emptyTotals());
+        for (const date of Object.keys(ledger.days).sort().slice(0, -KEEP_DAYS)) {
+            delete ledger.days[date];
+        }
+
+        if (importRef) {
+            const existing = ledger.imports.find(i => i.id === importRef.id);
+            const entry = existing ?? { id: importRef.id, label: importRef.label, startedAt: now, ...emptyTotals() };
+            const totals = records.reduce(addToTotals, emptyTotals());
+            Object.assign(entry, addToTotals(entry, totals));
+            if (!existing) ledger.imports = [entry, ...ledger.imports].slice(0, KEEP_IMPORTS);
+        }
+    });
+}
+
+/**
+ * Throws BudgetExceededError when this month's spend has reached the budget.
+ * Routes check before each request or batch, and usage is recorded once a batch finishes, so
+ * batches already running still complete: an import can overshoot by up to its concurrency times
+ * the calls one batch may make (3 attempts for each of 2 prompts).
+ */
+export async function checkBudget(): Promise<void> {
+    await pending;
+    const ledger = await readLedger();
+    if (ledger.budgetUsd === null) return;
+    const spent = monthTotals(ledger, dayKey(Date.now()).slice(0, 7)).costUsd;
+    if (spent >= ledger.budgetUsd) throw new BudgetExceededError(spent, ledger.budgetUsd);
+}
+
+export function setMonthlyBudget(budgetUsd: number | null): Promise<void> {
+    return updateLedger(ledger => {
+        ledger.budgetUsd = budgetUsd !== null && budgetUsd > 0 ? budgetUsd : null;
+    });
+}
+
+export async function getUsageSummary(): Promise<UsageSummary> {
+    await pending;
+    const ledger = await readLedger();
+    const month = dayKey(Date.now()).slice(0, 7);
+    const monthUsage = monthTotals(ledger, month);
+    const days: DailyUsage[] = Object.entries(ledger.days)
+        .map(([date, totals]) => ({ date, ...totals }))
+        .sort((a, b) => b.date.localeCompare(a.date));
+
+    return {
+        month,
+        monthCostUsd: monthUsage.costUsd,
+        monthUnpricedCalls: monthUsage.unpricedCalls,
+        budgetUsd: ledger.budgetUsd,
+        days,
+        imports: ledger.imports,
+    };
+}
@@ -0,0 +1,158 @@
+/**
+ * Token usage and cost for every provider call.
+ * `withUsage` wraps an AIClient so each completion reports its tokens, latency and estimated cost.
+ * Providers that don't report token counts (Replicate, some local servers) get estimates.
+ */
+
+import { getEmbeddingModelForProvider, type AIClient, type CompletionRequest, type TokenCounts } from './ai-client';
+import { estimateTokens } from './chunker';
+import type { UsageOperation, UsageRecord, UsageReport, UsageTotals } from './types';
+
+interface ModelPrice {
+    // USD per million tokens
+    input: number;
+    output: number;
+}
+
+// Matched by prefix, most specific first. Calls to models not listed are counted as unpriced.
+const MODEL_PRICES: [string, ModelPrice][] = [
+    ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+    ['gpt-4o', { input: 2.5, output: 10 }],
+    ['gpt-4.1-nano', { input: 0.1, output: 0.4 }],
+    ['gpt-4.1-mini', { input: 0.4, output: 1.6 }],
+    ['gpt-4.1', { input: 2, output: 8 }],
+    ['gpt-3.5-turbo', { input: 0.5, output: 1.5 }],
+    ['gemini-2.0-flash-lite', { input: 0.075, output: 0.3 }],
+    ['gemini-2.0-flash', { input: 0.1, output: 0.4 }],
+    ['gemini-1.5-flash', { input: 0.075, output: 0.3 }],
+    ['gemini-1.5-pro', { input: 1.25, output: 5 }],
+    ['claude-3-5-haiku', { input: 0.8, output: 4 }],
+    ['claude-3-haiku', { input: 0.25, output: 1.25 }],
+    ['claude-3-opus', { input: 15, output: 75 }],
+    ['claude-3', { input: 3, output: 15 }],
+    ['meta/meta-llama-3-70b', { input: 0.65, output: 2.75 }],
+    ['meta/meta-llama-3-8b', { input: 0.05, output: 0.25 }],
+    ['text-embedding-3-small', { input: 0.02, output: 0 }],
+    ['text-embedding-3-large', { input: 0.13, output: 0 }],
+];
+
+/**
+ * Estimated USD cost, or null when the model's price isn't known
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number | null {
+    const name = model.toLowerCase();
+    const price = MODEL_PRICES.find(([prefix]) => name.startsWith(prefix))?.[1];
+    if (!price) return null;
+    return (inputTokens * price.input + outputTokens * price.output) / 1000000;
+}
+
+export function emptyTotals(): UsageTotals {
+    return { calls: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, costUsd: 0, unpricedCalls: 0 };
+}
+
+export function addToTotals(totals: UsageTotals, usage: UsageRecord | UsageTotals): UsageTotals {
+    const isTotals = 'calls' in usage;
+    return {
+        calls: totals.calls + (isTotals ? usage.calls : 1),
+        inputTokens: totals.inputTokens + usage.inputTokens,
+        outputTokens: totals.outputTokens + usage.outputTokens,
+        latencyMs: totals.latencyMs + usage.latencyMs,
+        costUsd: totals.costUsd + (usage.costUsd ?? 0),
+        unpricedCalls: totals.unpricedCalls + (isTotals ? usage.unpricedCalls : usage.costUsd === null ? 1 : 0),
+    };
+}
+
+export function usageReport(calls: UsageRecord[]): UsageReport {
+    return { total: calls.reduce(addToTotals, emptyTotals()), calls };
+}
+
+/**
+ * Same client, but every call the provider answered ends with `onRecord`. Answers that later fail
+ * validation count too (they were billed); calls that never got a response don't.
+ * Embeddings are always estimated, from the texts sent. Local models cost nothing.
+ */
+export function withUsage(
+    client: AIClient,
+    operation: UsageOperation,
+    onRecord: (record: UsageRecord) => void
+): AIClient {
+    const cost = (model: string, inputTokens: number, outputTokens: number) =>
+        client.provider === 'local' ? 0 : estimateCost(model, inputTokens, outputTokens);
+
+    const track = (request: CompletionRequest) => {
+        const startedAt = Date.now();
+        let reported: TokenCounts | undefined;
+        const tracked: CompletionRequest = {
+            ...request,
+            onUsage: usage => {
+                reported = usage;
+                request.onUsage?.(usage);
+            },
+        };
+        const finish = (output: string, failed: boolean) => {
+            if (failed && !reported && !output) return;
+            const inputTokens = reported?.inputTokens ?? estimateTokens(`${request.system ?? ''}${request.prompt}`);
+            const outputTokens = reported?.outputTokens ?? estimateTokens(output);
+            onRecord({
+                operation,
+                provider: client.provider,
+                model: client.model,
+                inputTokens,
+                outputTokens,
+                latencyMs: Date.now() - startedAt,
+                costUsd: cost(client.model, inputTokens, outputTokens),
+                estimated: !reported,
+            });
+        };
+        return { tracked, finish };
+    };
+
+    const embed = client.embed?.bind(client);
+
+    return {
+        ...client,
+        embed: embed && (async (texts, signal) => {
+            const startedAt = Date.now();
+            const vectors = await embed(texts, signal);
+            const model = getEmbeddingModelForProvider(client.provider) ?? client.model;
+            const inputTokens = texts.reduce((sum, text) => sum + estimateTokens(text), 0);
+            onRecord({
+                operation,
+                provider: client.provider,
+                model,
+                inputTokens,
+                outputTokens: 0,
+                latencyMs: Date.now() - startedAt,
+                costUsd: cost(model, inputTokens, 0),
+                estimated: true,
+            });
+            return vectors;
+        }),
+        async complete(request) {
+            const { tracked, finish } = track(request);
+            let output = '';
+            let failed = true;
+            try {
+                output = await client.complete(tracked);
+                failed = false;
+                return output;
+            } finally {
+                finish(output, failed);
+            }
+        },
+        async *stream(request) {
+            const { tracked, finish } = track(request);
+            let output = '';
+            let failed = true;
+            try {
+                for await (const text of client.stream(tracked)) {
+                    output += text;
+                    yield text;
+                }
+                failed = false;
+            } finally {
+                finish(output, failed);
+            }
+        },
+    };
+}
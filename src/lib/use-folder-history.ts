@@ -0,0 +1,109 @@
+/**
+ * Folder state with undo/redo. Folders and history live in one state object so every command
+ * records exactly the change it made, even when React batches several updates together.
+ */
+
+import { SetStateAction, useCallback, useEffect, useState } from "react";
+import { EMPTY_HISTORY, FolderHistory, recordEntry, redoEntry, undoEntry } from "./history";
+import type { Folder } from "./types";
+
+interface HistoryState {
+  folders: Folder[];
+  history: FolderHistory;
+  // Open while a multi-step command (a streamed import, a breakdown) is running
+  batch: { label: string; before: Folder[] } | null;
+}
+
+function resolve(update: SetStateAction<Folder[]>, prev: Folder[]): Folder[] {
+  return typeof update === "function" ? update(prev) : update;
+}
+
+// Typing in a text field keeps the browser's own undo (and paste)
+export function isTextEntry(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.tagName === "TEXTAREA") return true;
+  return target.tagName === "INPUT" && !["checkbox", "radio", "button", "submit"].includes((target as HTMLInputElement).type);
+}
+
+export function useFolderHistory() {
+  const [state, setState] = useState<HistoryState>({ folders: [], history: EMPTY_HISTORY, batch: null });
+
+  // Replaces everything, e.g. once the saved folders and history have loaded
+  const reset = useCallback((folders: Folder[], history: FolderHistory = EMPTY_HISTORY) => {
+    setState({ folders, history, batch: null });
+  }, []);
+
+  // Not recorded: view state such as expanding a folder, or steps of an open batch
+  const setFolders = useCallback((update: SetStateAction<Folder[]>) => {
+    setState(s => ({ ...s, folders: resolve(update, s.folders) }));
+  }, []);
+
+  // An undoable change. Inside an open batch it's folded into the batch's entry.
+  const commit = useCallback((label: string, update: SetStateAction<Folder[]>) => {
+    setState(s => {
+      const folders = resolve(update, s.folders);
+      if (s.batch) return { ...s, folders };
+      return { ...s, folders, history: recordEntry(s.history, label, s.folders, folders) };
+    });
+  }, []);
+
+  const beginBatch = useCallback((label: string) => {
+    setState(s => s.batch ? s : { ...s, batch: { label, before: s.folders } });
+  }, []);
+
+  const endBatch = useCallback(() => {
+    setState(s => s.batch
+      ? { ...s, batch: null, history: recordEntry(s.history, s.batch.label, s.batch.before, s.folders) }
+      : s
+    );
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(s => {
+      if (s.batch) return s;
+      const result = undoEntry(s.history, s.folders);
+      return result ? { ...s, ...result } : s;
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(s => {
+      if (s.batch) return s;
+      const result = redoEntry(s.history, s.folders);
+      return result ? { ...s, ...result } : s;
+    });
+  }, []);
+
+  // Ctrl/Cmd+Z undoes; Ctrl/Cmd+Shift+Z or Ctrl+Y redoes
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextEntry(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || (key === "y" && !e.metaKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undo, redo]);
+
+  const { past, future } = state.history;
+  return {
+    folders: state.folders,
+    history: state.history,
+    isBatching: state.batch !== null,
+    undoLabel: past[past.length - 1]?.label ?? null,
+    redoLabel: future[0]?.label ?? null,
+    reset,
+    setFolders,
+    commit,
+    beginBatch,
+    endBatch,
+    undo,
+    redo,
+  };
+}
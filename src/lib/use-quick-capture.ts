@@ -0,0 +1,41 @@
+/**
+ * Global entry points for quick capture: Ctrl/Cmd+K opens it from anywhere, and text pasted
+ * outside a text field opens it pre-filled.
+ */
+
+import { useEffect } from "react";
+import { isTextEntry } from "./use-folder-history";
+
+export const CAPTURE_SHORTCUT_LABEL = "Ctrl/Cmd+K";
+
+interface QuickCaptureHandlers {
+  onOpen: () => void;
+  // Leave out to ignore pastes on this page
+  onPaste?: (text: string) => void;
+}
+
+export function useQuickCapture({ onOpen, onPaste }: QuickCaptureHandlers) {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        onOpen();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onOpen]);
+
+  useEffect(() => {
+    if (!onPaste) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isTextEntry(e.target)) return;
+      const text = e.clipboardData?.getData("text/plain") ?? "";
+      if (!text.trim()) return;
+      e.preventDefault();
+      onPaste(text);
+    };
+    window.addEventListener("paste", handlePaste);
+    return () => window.removeEventListener("paste", handlePaste);
+  }, [onPaste]);
+}
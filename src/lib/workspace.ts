@@ -0,0 +1,173 @@
+/**
+ * The whole workspace as one versioned JSON file: folders and tasks with their ids, tiers and
+ * expansion, undo history, restore points, bucket aliases, corrections and settings. Used as a
+ * backup and to move to another browser, which the checklist ZIP can't do losslessly.
+ */
+
+import { type Correction, recordCorrection, validateCorrections } from "./corrections";
+import { EMPTY_HISTORY, type FolderHistory, validateHistory } from "./history";
+import { migrateDocument, type Migration } from "./persistence";
+import type { Validation } from "./schemas";
+import { type Snapshot, validateSnapshots } from "./snapshots";
+import { validateFolders } from "./store";
+import { addAlias, findFolderByName, mergeImportedFolders, parseBucketAliases } from "./taxonomy";
+import type { BucketAlias, Folder } from "./types";
+
+export const WORKSPACE_FORMAT = "flowlist-workspace";
+export const WORKSPACE_VERSION = 1;
+
+// migrations[n] takes a version-n bundle's data to n + 1
+const WORKSPACE_MIGRATIONS: Record<number, Migration> = {};
+
+export interface WorkspaceSettings {
+  semanticDedup: boolean;
+}
+
+export interface WorkspaceData {
+  folders: Folder[];
+  history: FolderHistory;
+  snapshots: Snapshot[];
+  aliases: BucketAlias[];
+  corrections: Correction[];
+  settings: WorkspaceSettings;
+}
+
+export interface WorkspaceBundle {
+  format: typeof WORKSPACE_FORMAT;
+  version: number;
+  savedAt: number;
+  data: WorkspaceData;
+}
+
+export interface ParsedWorkspace {
+  savedAt: number | null;
+  data: WorkspaceData;
+  // Everything validation dropped or repaired, for the import dialog
+  warnings: string[];
+}
+
+export class WorkspaceImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkspaceImportError";
+  }
+}
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 11);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function createWorkspaceBundle(data: WorkspaceData): WorkspaceBundle {
+  return { format: WORKSPACE_FORMAT, version: WORKSPACE_VERSION, savedAt: Date.now(), data };
+}
+
+function isWorkspaceBundle(value: unknown): boolean {
+  return isRecord(value) && value.format === WORKSPACE_FORMAT;
+}
+
+// Lets a dropped .json be routed here instead of to the task-manager importers
+export function isWorkspaceFile(text: string): boolean {
+  try {
+    return isWorkspaceBundle(JSON.parse(text));
+  } catch {
+    return false;
+  }
+}
+
+// Folder ids must be unique: undo history and the deconstructor address folders by id
+function dedupeFolderIds(folders: Folder[], taken: Set<string> = new Set()): { folders: Folder[]; renamed: number } {
+  let renamed = 0;
+  const result = folders.map(f => {
+    if (!taken.has(f.id)) {
+      taken.add(f.id);
+      return f;
+    }
+    renamed++;
+    const id = generateId();
+    taken.add(id);
+    return { ...f, id };
+  });
+  return { folders: result, renamed };
+}
+
+/**
+ * Reads and validates a bundle. Only the folders are required; any other section that is missing
+ * or unreadable comes back empty, and what was dropped is listed in `warnings`.
+ */
+export function parseWorkspaceBundle(text: string): ParsedWorkspace {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new WorkspaceImportError("The file isn't valid JSON.");
+  }
+  if (!isWorkspaceBundle(raw)) throw new WorkspaceImportError("The file isn't a workspace export.");
+
+  let migrated: unknown;
+  try {
+    migrated = migrateDocument(raw, WORKSPACE_VERSION, WORKSPACE_MIGRATIONS).data;
+  } catch (error) {
+    throw new WorkspaceImportError(error instanceof Error ? error.message : String(error));
+  }
+  const data = isRecord(migrated) ? migrated : {};
+  const warnings: string[] = [];
+
+  const folders = validateFolders(data.folders);
+  if (!folders.value) throw new WorkspaceImportError(`The workspace has no folders: ${folders.errors.join(", ")}`);
+  warnings.push(...folders.errors);
+  const { folders: uniqueFolders, renamed } = dedupeFolderIds(folders.value);
+  if (renamed > 0) warnings.push(`Renumbered ${renamed} duplicate folder id${renamed === 1 ? "" : "s"}`);
+
+  // Optional sections fall back to empty rather than failing the import
+  const section = <T>(name: string, value: unknown, validate: (data: unknown) => Validation<T>, empty: T): T => {
+    if (value === undefined) return empty;
+    const result = validate(value);
+    warnings.push(...result.errors.map(e => `${name}: ${e}`));
+    return result.value ?? empty;
+  };
+
+  const settings = isRecord(data.settings) ? data.settings : {};
+  return {
+    savedAt: typeof (raw as WorkspaceBundle).savedAt === "number" ? (raw as WorkspaceBundle).savedAt : null,
+    data: {
+      folders: uniqueFolders,
+      history: section("History", data.history, validateHistory, EMPTY_HISTORY),
+      snapshots: section("Restore points", data.snapshots, validateSnapshots, []),
+      aliases: parseBucketAliases(data.aliases),
+      corrections: section("Corrections", data.corrections, validateCorrections, []),
+      settings: { semanticDedup: settings.semanticDedup === true },
+    },
+    warnings,
+  };
+}
+
+/**
+ * Folds an imported workspace into the current one: folders merge by name (new ones keep their
+ * tier), aliases and corrections are combined. Undo history stays local, since the imported
+ * entries describe a different board.
+ */
+export function mergeWorkspace(
+  current: Pick<WorkspaceData, "folders" | "aliases" | "corrections">,
+  incoming: WorkspaceData
+): Pick<WorkspaceData, "folders" | "aliases" | "corrections"> {
+  // An imported alias must not hijack the name of one of this board's folders
+  const aliases = incoming.aliases
+    .filter(a => !findFolderByName(current.folders, [], a.alias))
+    .reduce((acc, a) => addAlias(acc, a.alias, a.canonical), current.aliases);
+  const { folders: incomingFolders } = dedupeFolderIds(incoming.folders, new Set(current.folders.map(f => f.id)));
+
+  const seen = new Set(current.corrections.map(c => `${c.at}:${c.text}`));
+  const corrections = [...current.corrections, ...incoming.corrections.filter(c => !seen.has(`${c.at}:${c.text}`))]
+    .sort((a, b) => a.at - b.at)
+    .reduce(recordCorrection, [] as Correction[]);
+
+  return {
+    folders: mergeImportedFolders(current.folders, aliases, incomingFolders),
+    aliases,
+    corrections,
+  };
+}